@@ -6,15 +6,33 @@ import type {
   Last,
   MapParametersReturn,
   MergeObjects,
+  ParallelOptions,
   PipeReturn,
   RecordToTuple,
   Result,
+  RetryPolicy,
   SequenceReturn,
   Success,
+  TraverseReturn,
   UnpackData,
+  UnpackErrors,
 } from './types.ts'
-import { composable, failure, fromSuccess, success } from './constructors.ts'
+import {
+  callWithSignal,
+  composable,
+  copyError,
+  failure,
+  fromSuccess,
+  success,
+  toComposable,
+} from './constructors.ts'
 import type { Internal } from './internal/types.ts'
+import {
+  InputError,
+  isContextError,
+  isInputError,
+  TimeoutError,
+} from './errors.ts'
 
 /**
  * Merges a list of objects into a single object.
@@ -63,10 +81,14 @@ function pipe<
   Fns extends [Function, ...Function[]],
 >(
   ...fns: Fns
-): PipeReturn<CanComposeInSequence<Internal.Composables<Fns>>> {
+): PipeReturn<
+  CanComposeInSequence<Internal.Composables<Fns>>,
+  Internal.UnionErrors<Internal.Composables<Fns>>
+> {
   const last = <T extends any[]>(arr: T): Last<T> => arr.at(-1)
   return map(sequence(...fns as never), last as never) as PipeReturn<
-    CanComposeInSequence<Internal.Composables<Fns>>
+    CanComposeInSequence<Internal.Composables<Fns>>,
+    Internal.UnionErrors<Internal.Composables<Fns>>
   >
 }
 
@@ -99,29 +121,239 @@ function all<Fns extends Function[]>(
     >
   ) => {
     [k in keyof Fns]: UnpackData<Internal.Composables<Fns>[k]>
-  }
+  },
+  Internal.UnionErrors<Internal.Composables<Fns>>
+> {
+  return allWith({}, ...fns)
+}
+
+/**
+ * Works like `all` but it accepts options to limit how many functions run at the same time.
+ *
+ * @param options.concurrency the maximum amount of functions running simultaneously, a positive integer or Infinity. Defaults to running all of them at once.
+ * @param options.failFast when true, no new functions are started after the first failure.
+ * @throws a RangeError when the concurrency is neither a positive integer nor Infinity
+ *
+ * @example
+ *
+ * ```ts
+ * import { allWith } from 'composable-functions'
+ *
+ * const a = (id: number) => id + 1
+ * const b = (x: unknown) => String(x)
+ * const c = (x: unknown) => Boolean(x)
+ * const cf = allWith({ concurrency: 2 }, a, b, c)
+ * //     ^? Composable<(id: number) => [string, number, boolean]>
+ * ```
+ */
+function allWith<Fns extends Function[]>(
+  options: ParallelOptions,
+  ...fns: Fns
+): Composable<
+  (
+    ...args: Parameters<
+      NonNullable<CanComposeInParallel<Internal.Composables<Fns>>[0]>
+    >
+  ) => {
+    [k in keyof Fns]: UnpackData<Internal.Composables<Fns>[k]>
+  },
+  Internal.UnionErrors<Internal.Composables<Fns>>
 > {
-  const callable = (async (...args) => {
-    const results = await Promise.all(
-      fns.map((fn) => composable(fn as Internal.AnyFn)(...args)),
+  assertConcurrency(options)
+  return toComposable(async (signal, ...args) => {
+    const results = await runInParallel(
+      fns.map((fn) => () => callWithSignal(fn, signal, args)),
+      options,
     )
 
     if (results.some(({ success }) => success === false)) {
-      return failure(results.map(({ errors }) => errors).flat())
+      return failure(results.flatMap(({ errors }) => errors))
     }
 
     return success((results as Success[]).map(({ data }) => data))
-  }) as Composable<
-    (
-      ...args: Parameters<
-        NonNullable<CanComposeInParallel<Internal.Composables<Fns>>[0]>
-      >
-    ) => {
-      [k in keyof Fns]: UnpackData<Internal.Composables<Fns>[k]>
+  })
+}
+
+/**
+ * Composes functions to run in parallel returning a tuple with the Result of each function.
+ *
+ * Unlike `all`, it always succeeds so the data of the successful functions is available even when some of them fail.
+ *
+ * @example
+ *
+ * ```ts
+ * import { allSettled } from 'composable-functions'
+ *
+ * const a = (id: number) => id + 1
+ * const b = (id: number) => {
+ *   throw new Error(`Could not load ${id}`)
+ * }
+ * const cf = allSettled(a, b)
+ * //    ^? Composable<(id: number) => [Result<number>, Result<never>]>
+ * ```
+ */
+function allSettled<Fns extends Function[]>(
+  ...fns: Fns
+): Composable<
+  (
+    ...args: Parameters<
+      NonNullable<CanComposeInParallel<Internal.Composables<Fns>>[0]>
+    >
+  ) => {
+    [k in keyof Fns]: Result<
+      UnpackData<Internal.Composables<Fns>[k]>,
+      UnpackErrors<Internal.Composables<Fns>[k]>
+    >
+  }
+> {
+  return toComposable(async (signal, ...args) => {
+    return success(
+      await runInParallel(
+        fns.map((fn) => () => callWithSignal(fn, signal, args)),
+        {},
+      ),
+    )
+  })
+}
+
+/**
+ * Composes functions to run in parallel returning the Result of the first one to finish, be it a Success or a Failure.
+ *
+ * The other functions are not interrupted, but the signal forwarded to them is aborted so their remaining steps are skipped.
+ * It fails when it is not given any function.
+ *
+ * @example
+ *
+ * ```ts
+ * import { race } from 'composable-functions'
+ *
+ * const fromPrimary = (id: number) => primary.users.find(id)
+ * const fromReplica = (id: number) => replica.users.find(id)
+ * const cf = race(fromPrimary, fromReplica)
+ * //    ^? Composable<(id: number) => User>
+ * ```
+ */
+function race<Fns extends Function[]>(
+  ...fns: Fns
+): Composable<
+  (
+    ...args: Parameters<
+      NonNullable<CanComposeInParallel<Internal.Composables<Fns>>[0]>
+    >
+  ) => UnpackData<Internal.Composables<Fns>[number]>,
+  Internal.UnionErrors<Internal.Composables<Fns>>
+> {
+  return toComposable(async (signal, ...args) => {
+    if (fns.length === 0) {
+      return failure([new Error('race needs at least one function')])
     }
-  >
-  callable.kind = 'composable' as const
-  return callable
+    const controller = linkedAbortController(signal)
+    try {
+      return await Promise.race(
+        fns.map((fn) => callWithSignal(fn, controller.signal, args)),
+      )
+    } finally {
+      controller.abort()
+    }
+  })
+}
+
+/**
+ * Composes functions to run in parallel returning the Result of the first one to succeed. It only fails when all of them fail, in which case their errors will be concatenated like in `all`.
+ *
+ * The other functions are not interrupted, but the signal forwarded to them is aborted so their remaining steps are skipped.
+ * It fails when it is not given any function.
+ *
+ * @example
+ *
+ * ```ts
+ * import { any } from 'composable-functions'
+ *
+ * const fromPrimary = (id: number) => primary.users.find(id)
+ * const fromReplica = (id: number) => replica.users.find(id)
+ * const cf = any(fromPrimary, fromReplica)
+ * //    ^? Composable<(id: number) => User>
+ * ```
+ */
+function any<Fns extends Function[]>(
+  ...fns: Fns
+): Composable<
+  (
+    ...args: Parameters<
+      NonNullable<CanComposeInParallel<Internal.Composables<Fns>>[0]>
+    >
+  ) => UnpackData<Internal.Composables<Fns>[number]>,
+  Internal.UnionErrors<Internal.Composables<Fns>>
+> {
+  return toComposable(async (signal, ...args) => {
+    if (fns.length === 0) {
+      return failure([new Error('any needs at least one function')])
+    }
+    const controller = linkedAbortController(signal)
+    const results = fns.map((fn) => callWithSignal(fn, controller.signal, args))
+    try {
+      return await Promise.any(
+        results.map((result) =>
+          result.then((res) => res.success ? res : Promise.reject(res))
+        ),
+      )
+    } catch (_e) {
+      const failures = await Promise.all(results)
+      return failure(failures.flatMap(({ errors }) => errors))
+    } finally {
+      controller.abort()
+    }
+  })
+}
+
+/**
+ * Creates an AbortController that is also aborted when the given signal aborts.
+ * The listener on the given signal is removed once the controller aborts, so it must be aborted when it is no longer needed.
+ */
+function linkedAbortController(signal: AbortSignal | undefined) {
+  const controller = new AbortController()
+  if (signal?.aborted) controller.abort(signal.reason)
+  signal?.addEventListener('abort', () => controller.abort(signal.reason), {
+    once: true,
+    signal: controller.signal,
+  })
+  return controller
+}
+
+/**
+ * Throws when the `concurrency` option is neither a positive integer nor Infinity, as no function would ever run.
+ */
+function assertConcurrency({ concurrency = Infinity }: ParallelOptions) {
+  if (
+    concurrency === Infinity ||
+    (Number.isInteger(concurrency) && concurrency > 0)
+  ) return
+  throw new RangeError(
+    `concurrency must be a positive integer or Infinity, received ${concurrency}`,
+  )
+}
+
+/**
+ * Starts the given calls using at most `concurrency` workers.
+ * When `failFast` is set, the results of calls that were never started are left out of the returned sparse array.
+ */
+async function runInParallel(
+  calls: Array<() => Promise<Result<unknown>>>,
+  { concurrency = Infinity, failFast = false }: ParallelOptions,
+): Promise<Result<unknown>[]> {
+  const results: Result<unknown>[] = []
+  let next = 0
+  let failed = false
+  const worker = async () => {
+    while (next < calls.length && !(failFast && failed)) {
+      const index = next++
+      results[index] = await calls[index]()
+      if (!results[index].success) failed = true
+    }
+  }
+  const workers = Math.max(1, Math.min(concurrency, calls.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
 }
 
 /**
@@ -150,13 +382,48 @@ function collect<Fns extends Record<string, Function>>(
       >
     ) => {
       [key in keyof Fns]: UnpackData<Composable<Fns[key]>>
-    }
+    },
+    Internal.UnionErrors<Internal.Composables<Fns>>
+  >
+  : never {
+  return collectWith({}, fns)
+}
+
+/**
+ * Works like `collect` but it accepts the same options as `allWith` to limit how many functions run at the same time.
+ *
+ * @example
+ *
+ * ```ts
+ * import { collectWith } from 'composable-functions'
+ *
+ * const a = () => '1'
+ * const b = () => 2
+ * const aComposable = collectWith({ concurrency: 1 }, { a, b })
+ * //       ^? Composable<() => { a: string, b: number }>
+ * ```
+ */
+function collectWith<Fns extends Record<string, Function>>(
+  options: ParallelOptions,
+  fns: Fns,
+): Fns extends Record<string, Internal.AnyFn> ? Composable<
+    (
+      ...args: Parameters<
+        Exclude<
+          CanComposeInParallel<RecordToTuple<Internal.Composables<Fns>>>[0],
+          undefined
+        >
+      >
+    ) => {
+      [key in keyof Fns]: UnpackData<Composable<Fns[key]>>
+    },
+    Internal.UnionErrors<Internal.Composables<Fns>>
   >
   : never {
   const fnsWithKey = Object.entries(fns).map(([key, cf]) =>
     map(cf as Internal.AnyFn, (result) => ({ [key]: result }))
   )
-  const allFns = all(...(fnsWithKey as any)) as Composable
+  const allFns = allWith(options, ...(fnsWithKey as any)) as Composable
   return map(allFns, mergeObjects) as Fns extends Record<string, Internal.AnyFn>
     ? Composable<
       (
@@ -168,6 +435,67 @@ function collect<Fns extends Record<string, Function>>(
         >
       ) => {
         [key in keyof Fns]: UnpackData<Composable<Fns[key]>>
+      },
+      Internal.UnionErrors<Internal.Composables<Fns>>
+    >
+    : never
+}
+
+/**
+ * Composes functions to run in parallel returning a record with same keys as inputs with the Result of each function.
+ *
+ * Unlike `collect`, it always succeeds so the data of the successful functions is available even when some of them fail.
+ *
+ * @example
+ *
+ * ```ts
+ * import { collectSettled } from 'composable-functions'
+ *
+ * const a = () => '1'
+ * const b = () => {
+ *   throw new Error('Oops')
+ * }
+ * const aComposable = collectSettled({ a, b })
+ * //       ^? Composable<() => { a: Result<string>, b: Result<never> }>
+ * ```
+ */
+function collectSettled<Fns extends Record<string, Function>>(
+  fns: Fns,
+): Fns extends Record<string, Internal.AnyFn> ? Composable<
+    (
+      ...args: Parameters<
+        Exclude<
+          CanComposeInParallel<RecordToTuple<Internal.Composables<Fns>>>[0],
+          undefined
+        >
+      >
+    ) => {
+      [key in keyof Fns]: Result<
+        UnpackData<Composable<Fns[key]>>,
+        UnpackErrors<Composable<Fns[key]>>
+      >
+    }
+  >
+  : never {
+  const keys = Object.keys(fns)
+  const allFns = allSettled(...Object.values(fns)) as Composable
+  return map(
+    allFns,
+    (results: Result<unknown>[]) =>
+      Object.fromEntries(keys.map((key, index) => [key, results[index]])),
+  ) as Fns extends Record<string, Internal.AnyFn> ? Composable<
+      (
+        ...args: Parameters<
+          Exclude<
+            CanComposeInParallel<RecordToTuple<Internal.Composables<Fns>>>[0],
+            undefined
+          >
+        >
+      ) => {
+        [key in keyof Fns]: Result<
+          UnpackData<Composable<Fns[key]>>,
+          UnpackErrors<Composable<Fns[key]>>
+        >
       }
     >
     : never
@@ -192,26 +520,75 @@ function sequence<
   Fns extends [Function, ...Function[]],
 >(
   ...fns: Fns
-): SequenceReturn<CanComposeInSequence<Internal.Composables<Fns>>> {
-  const callable = (async (...args) => {
+): SequenceReturn<
+  CanComposeInSequence<Internal.Composables<Fns>>,
+  Internal.UnionErrors<Internal.Composables<Fns>>
+> {
+  return toComposable(async (signal, ...args) => {
     const [head, ...tail] = fns as unknown as [
       Internal.AnyFn,
       ...Internal.AnyFn[],
     ]
 
-    const res = await composable(head)(...args)
+    const res = await callWithSignal(head, signal, args)
     if (!res.success) return failure(res.errors)
 
     const result = [res.data]
     for await (const fn of tail) {
-      const res = await composable(fn)(result.at(-1))
+      const res = await callWithSignal(fn, signal, [result.at(-1)])
       if (!res.success) return failure(res.errors)
       result.push(res.data)
     }
     return success(result)
-  }) as SequenceReturn<CanComposeInSequence<Internal.Composables<Fns>>>
-  callable.kind = 'composable' as const
-  return callable
+  })
+}
+
+/**
+ * Lifts a Composable that works on a single item into a Composable that works on a list of items, returning a list with the output of each call when all are successful.
+ * Any other parameters are passed unchanged to every call.
+ *
+ * The items run in parallel by default. Use the `concurrency` option to limit how many run at the same time - `{ concurrency: 1 }` runs them sequentially - and `failFast` to stop after the first failure.
+ * The path of every `InputError` is prefixed with the index of the item that originated it.
+ * When the given items are not a list, it fails with an `InputError`.
+ *
+ * @example
+ *
+ * ```ts
+ * import { traverse } from 'composable-functions'
+ *
+ * const getUser = ({ id }: { id: number }) => db.users.find(id)
+ * const getUsers = traverse(getUser, { concurrency: 5 })
+ * //    ^? Composable<(items: { id: number }[]) => User[]>
+ * ```
+ */
+function traverse<Fn extends Function>(
+  fn: Fn,
+  options: ParallelOptions = {},
+): Fn extends Internal.AnyFn ? TraverseReturn<Composable<Fn>> : never {
+  assertConcurrency(options)
+  return toComposable(async (signal, items: unknown[], ...rest: unknown[]) => {
+    if (!Array.isArray(items)) {
+      return failure([new InputError('Expected a list of items', [])])
+    }
+    const results = await runInParallel(
+      items.map((item) => () => callWithSignal(fn, signal, [item, ...rest])),
+      options,
+    )
+
+    if (results.some(({ success }) => success === false)) {
+      return failure(
+        results.flatMap(({ errors }, index) =>
+          errors.map((error) =>
+            error instanceof InputError
+              ? copyError(error, { path: [String(index), ...error.path] })
+              : error
+          )
+        ),
+      )
+    }
+
+    return success((results as Success[]).map(({ data }) => data))
+  })
 }
 
 /**
@@ -238,15 +615,12 @@ function map<Fn extends Function, O>(
   ) => O | Promise<O>,
 ): Fn extends Internal.AnyFn ? Composable<(...args: Parameters<Fn>) => O>
   : never {
-  const callable = (async (...args) => {
-    const result = await composable(fn)(...args)
+  return toComposable(async (signal, ...args) => {
+    const result = await callWithSignal(fn, signal, args)
     if (!result.success) return failure(result.errors)
 
-    return composable(mapper)(result.data, ...(args as never))
-  }) as Fn extends Internal.AnyFn ? Composable<(...args: Parameters<Fn>) => O>
-    : never
-  callable.kind = 'composable' as const
-  return callable
+    return callWithSignal(mapper, signal, [result.data, ...args])
+  })
 }
 
 /**
@@ -275,15 +649,11 @@ function mapParameters<
 ): Fn extends Internal.AnyFn
   ? MapParametersReturn<Composable<Fn>, NewParameters, MapperOutput>
   : never {
-  const callable = (async (...args) => {
-    const output = await composable(mapper)(...args)
+  return toComposable(async (signal, ...args) => {
+    const output = await callWithSignal(mapper, signal, args)
     if (!output.success) return failure(output.errors)
-    return composable(fn)(...output.data)
-  }) as Fn extends Internal.AnyFn
-    ? MapParametersReturn<Composable<Fn>, NewParameters, MapperOutput>
-    : never
-  callable.kind = 'composable' as const
-  return callable
+    return callWithSignal(fn, signal, output.data)
+  })
 }
 
 /**
@@ -303,7 +673,7 @@ function mapParameters<
 function catchFailure<
   Fn extends Function,
   C extends (
-    err: Error[],
+    err: UnpackErrors<Composable<Extract<Fn, Internal.AnyFn>>>[],
     ...originalInput: Parameters<Extract<Fn, Internal.AnyFn>>
   ) => any,
 >(
@@ -312,33 +682,187 @@ function catchFailure<
 ): Fn extends Internal.AnyFn ? Composable<
     (
       ...args: Parameters<Fn>
-    ) => Awaited<ReturnType<C>> extends never[]
+    ) => UnpackData<Composable<C>> extends never[]
       ? UnpackData<Composable<Fn>> extends any[] ? UnpackData<Composable<Fn>>
-      : Awaited<ReturnType<C>> | UnpackData<Composable<Fn>>
-      : Awaited<ReturnType<C>> | UnpackData<Composable<Fn>>
+      : UnpackData<Composable<C>> | UnpackData<Composable<Fn>>
+      : UnpackData<Composable<C>> | UnpackData<Composable<Fn>>,
+    UnpackErrors<Composable<C>>
   >
   : never {
-  const callable =
-    (async (...args: Parameters<Extract<Fn, Internal.AnyFn>>) => {
-      const res = await composable(fn)(...args)
+  return toComposable(
+    async (signal, ...args) => {
+      const res = await callWithSignal(fn, signal, args)
       if (res.success) return success(res.data)
-      return composable(catcher)(res.errors, ...(args as never))
-    }) as Fn extends Internal.AnyFn ? Composable<
-        (
-          ...args: Parameters<Fn>
-        ) => Awaited<ReturnType<C>> extends never[]
-          ? UnpackData<Composable<Fn>> extends any[]
-            ? UnpackData<Composable<Fn>>
-          : Awaited<ReturnType<C>> | UnpackData<Composable<Fn>>
-          : Awaited<ReturnType<C>> | UnpackData<Composable<Fn>>
-      >
-      : never
-  callable.kind = 'composable' as const
-  return callable
+      return callWithSignal(catcher, signal, [res.errors, ...args])
+    },
+  )
+}
+
+/**
+ * Re-invokes a Composable whenever it fails, according to the given policy. When the given function succeeds, its result is returned without changes.
+ * If every attempt fails, the resulting Failure will carry the errors of all attempts in the order they happened.
+ *
+ * @param fn the composable to retry
+ * @param policy the number of attempts, the backoff strategy and a predicate to decide which failures should be retried.
+ * @throws a RangeError when the attempts are not a positive integer
+ *
+ * @example
+ *
+ * ```ts
+ * import { retry } from 'composable-functions'
+ *
+ * const fetchUser = (id: string) => fetch(`/users/${id}`).then((r) => r.json())
+ * const fetchUserWithRetry = retry(fetchUser, {
+ *   attempts: 3,
+ *   backoff: 'exponential',
+ *   delay: 100,
+ * })
+ * //    ^? Composable<(id: string) => any>
+ * ```
+ */
+function retry<Fn extends Function>(
+  fn: Fn,
+  policy: RetryPolicy,
+): Fn extends Internal.AnyFn ? Composable<Fn> : never {
+  const { attempts, shouldRetry = isRetryable } = policy
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new RangeError(
+      `attempts must be a positive integer, received ${attempts}`,
+    )
+  }
+  return toComposable(
+    async (signal, ...args) => {
+      const errors: Error[] = []
+      for (let attempt = 1;; attempt++) {
+        const res = await callWithSignal(fn, signal, args)
+        if (res.success) return res
+
+        errors.push(...res.errors)
+        if (attempt >= attempts || signal?.aborted) return failure(errors)
+
+        const retryable = await composable(shouldRetry)(res.errors, attempt)
+        if (!retryable.success) return failure([...errors, ...retryable.errors])
+        if (!retryable.data) return failure(errors)
+
+        await wait(backoffDelay(policy, attempt), signal)
+      }
+    },
+  )
+}
+
+function isRetryable(errors: Error[]): boolean {
+  return !errors.some((error) => isInputError(error) || isContextError(error))
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const { backoff = 'fixed', delay = 0, maxDelay = Infinity } = policy
+  const exponential = Math.min(delay * 2 ** (attempt - 1), maxDelay)
+  if (backoff === 'exponential') return exponential
+  if (backoff === 'jittered') return Math.random() * exponential
+  return Math.min(delay, maxDelay)
+}
+
+/**
+ * Waits for the given milliseconds, or until the signal is aborted.
+ */
+function wait(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+/**
+ * Races a Composable against a timer. When the given function takes longer than `ms` milliseconds, the resulting composable fails with a `TimeoutError`, otherwise its result is returned without changes.
+ *
+ * Once the time is up, the signal forwarded to the given function is aborted so its remaining steps are skipped. A step that is already running is not interrupted, its result is just ignored.
+ *
+ * @param fn the composable to be bounded
+ * @param ms the maximum amount of milliseconds to wait for the result
+ *
+ * @example
+ *
+ * ```ts
+ * import { timeout } from 'composable-functions'
+ *
+ * const fetchUser = (id: string) => fetch(`/users/${id}`).then((r) => r.json())
+ * const fetchUserOrTimeout = timeout(fetchUser, 1000)
+ * //    ^? Composable<(id: string) => any>
+ * ```
+ */
+function timeout<Fn extends Function>(
+  fn: Fn,
+  ms: number,
+): Fn extends Internal.AnyFn ? Composable<
+    (...args: Parameters<Fn>) => UnpackData<Composable<Fn>>,
+    Internal.NormalizeErrors<UnpackErrors<Composable<Fn>> | TimeoutError>
+  >
+  : never {
+  return toComposable(async (signal, ...args) => {
+    const controller = linkedAbortController(signal)
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timedOut = new Promise<Result<never>>((resolve) => {
+      timer = setTimeout(() => {
+        const error = new TimeoutError(`Timed out after ${ms}ms`)
+        controller.abort(error)
+        resolve(failure([error]))
+      }, ms)
+    })
+    try {
+      return await Promise.race([
+        callWithSignal(fn, controller.signal, args),
+        timedOut,
+      ])
+    } finally {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  })
+}
+
+/**
+ * Binds an `AbortSignal` to a Composable. The signal is forwarded to every step of the composition and checked before each one of them runs. Once the signal is aborted, the remaining steps are skipped and the result is a Failure with an `AbortError`.
+ *
+ * Note that a step that is already running is not interrupted, its result is just ignored by the next step. Steps created with `abortable` receive the signal so they can stop their own work.
+ * When the resulting composable is run with another signal, it aborts once either of them aborts.
+ *
+ * @param fn the composable to be called with the signal
+ * @param signal the signal that will abort the composition
+ *
+ * @example
+ *
+ * ```ts
+ * import { pipe, withSignal } from 'composable-functions'
+ *
+ * export async function loader({ request }: LoaderFunctionArgs) {
+ *   const getDashboard = pipe(getUser, getProjects, getReports)
+ *   const result = await withSignal(getDashboard, request.signal)(userId)
+ *   //    ^? Result<Report[]>
+ * }
+ * ```
+ */
+function withSignal<Fn extends Function>(
+  fn: Fn,
+  signal: AbortSignal | undefined,
+): Fn extends Internal.AnyFn ? Composable<Fn> : never {
+  return toComposable(
+    (outer, ...args) =>
+      callWithSignal(
+        fn,
+        outer && signal ? AbortSignal.any([outer, signal]) : outer ?? signal,
+        args,
+      ),
+  )
 }
 
 /**
  * Creates a new function that will apply a transformation over the list of Errors of a Failure from a given function. When the given function succeeds, its result is returned without changes. The mapper receives the original input.
+ * The resulting errors are the errors returned by the mapper and the errors it may fail with, so a plain mapper - which may throw anything - results in `Error`. Use a composable created with `typedComposable` as the mapper to narrow them down.
  *
  * @example
  *
@@ -351,25 +875,30 @@ function catchFailure<
  * }))
  * ```
  */
-function mapErrors<Fn extends Function>(
-  fn: Fn,
-  mapper: (
-    err: Error[],
+function mapErrors<
+  Fn extends Function,
+  M extends (
+    err: UnpackErrors<Composable<Extract<Fn, Internal.AnyFn>>>[],
     ...originalInput: Parameters<Extract<Fn, Internal.AnyFn>>
-  ) => Error[] | Promise<Error[]>,
-): Fn extends Internal.AnyFn ? Composable<Fn> : never {
-  const callable = (async (...args) => {
-    const res = await composable(fn)(...args)
+  ) => Error[] | Promise<Error[]> | Promise<Result<Error[]>>,
+>(
+  fn: Fn,
+  mapper: M,
+): Fn extends Internal.AnyFn ? Composable<
+    (...args: Parameters<Fn>) => UnpackData<Composable<Fn>>,
+    Internal.MappedErrors<Composable<M>>
+  >
+  : never {
+  return toComposable(async (signal, ...args) => {
+    const res = await callWithSignal(fn, signal, args)
     if (res.success) return success(res.data)
-    const mapped = await composable(mapper)(res.errors, ...(args as never))
+    const mapped = await callWithSignal(mapper, signal, [res.errors, ...args])
     if (mapped.success) {
       return failure(mapped.data)
     } else {
       return failure(mapped.errors)
     }
-  }) as Fn extends Internal.AnyFn ? Composable<Fn> : never
-  callable.kind = 'composable' as const
-  return callable
+  })
 }
 
 /**
@@ -398,19 +927,16 @@ function trace(
 ): <Fn extends Function>(
   fn: Fn,
 ) => Fn extends Internal.AnyFn ? Composable<Fn> : never {
-  return ((fn) => {
-    const callable = async (...args: any) => {
-      const originalResult = await composable(fn)(...args)
+  return ((fn) =>
+    toComposable(async (signal, ...args) => {
+      const originalResult = await callWithSignal(fn, signal, args)
       const traceResult = await composable(traceFn)(originalResult, ...args)
       if (traceResult.success) return originalResult
 
       return failure(traceResult.errors)
-    }
-    callable.kind = 'composable' as const
-    return callable
-  }) as <Fn extends Function>(
-    fn: Fn,
-  ) => Fn extends Internal.AnyFn ? Composable<Fn> : never
+    })) as <Fn extends Function>(
+      fn: Fn,
+    ) => Fn extends Internal.AnyFn ? Composable<Fn> : never
 }
 
 /**
@@ -446,34 +972,42 @@ function branch<
   Composable<Extract<SourceComposable, Internal.AnyFn>>,
   Resolver
 > {
-  const callable =
-    (async (...args: Parameters<Extract<SourceComposable, Internal.AnyFn>>) => {
-      const result = await composable(cf)(...args)
-      if (!result.success) return result
+  return toComposable(async (signal, ...args) => {
+    const result = await callWithSignal(cf, signal, args)
+    if (!result.success) return result
 
-      return composable(async () => {
+    return callWithSignal(
+      async () => {
         const nextComposable = await resolver(result.data)
         if (typeof nextComposable !== 'function') return result.data
-        return fromSuccess(composable(nextComposable))(result.data)
-      })()
-    }) as BranchReturn<
-      Composable<Extract<SourceComposable, Internal.AnyFn>>,
-      Resolver
-    >
-  ;(callable as any).kind = 'composable' as const
-  return callable
+        return fromSuccess(withSignal(nextComposable, signal))(result.data)
+      },
+      signal,
+      [],
+    )
+  })
 }
 
 export {
   all,
+  allSettled,
+  allWith,
+  any,
   branch,
   catchFailure,
   collect,
+  collectSettled,
+  collectWith,
   map,
   mapErrors,
   mapParameters,
   mergeObjects,
   pipe,
+  race,
+  retry,
   sequence,
+  timeout,
   trace,
+  traverse,
+  withSignal,
 }
@@ -1,11 +1,14 @@
-import { ContextError, ErrorList, InputError } from './errors.ts'
+import { AbortError, ContextError, ErrorList, InputError } from './errors.ts'
 import type { Internal } from './internal/types.ts'
 import type { StandardSchemaV1 as StandardSchema } from '@standard-schema/spec'
 import type {
   ApplySchemaReturn,
   Composable,
   Failure,
+  GenReturn,
+  Result,
   Success,
+  UnpackData,
 } from './types.ts'
 
 /**
@@ -18,7 +21,7 @@ function success<const T>(data: T): Success<T> {
 /**
  * It receives a list of errors and returns a Failure object.
  */
-function failure(errors: Error[]): Failure {
+function failure<E extends Error = Error>(errors: E[]): Failure<E> {
   return { success: false, errors }
 }
 
@@ -31,6 +34,66 @@ function toError(maybeError: unknown): Error {
   }
 }
 
+/**
+ * Copies an error with the given properties replaced, keeping its class, message, stack and cause.
+ */
+function copyError<E extends Error>(error: E, properties: Partial<E>): E {
+  const copy = Reflect.construct(Error, [error.message], error.constructor)
+  const descriptors: PropertyDescriptorMap = Object.getOwnPropertyDescriptors(
+    error,
+  )
+  descriptors.stack = {
+    value: error.stack,
+    writable: true,
+    configurable: true,
+  }
+  for (const [key, value] of Object.entries(properties)) {
+    descriptors[key] = {
+      value,
+      writable: true,
+      enumerable: descriptors[key]?.enumerable ?? false,
+      configurable: true,
+    }
+  }
+  return Object.defineProperties(copy, descriptors)
+}
+
+/**
+ * Creates a composable out of a function that receives the signal the composable was called with, followed by its arguments.
+ */
+function toComposable<T>(
+  run: (
+    signal: AbortSignal | undefined,
+    ...args: T extends Internal.AnyFn ? Parameters<T> : any[]
+  ) => Promise<Result<any>>,
+): T {
+  const callable = ((...args: any[]) => run(undefined, ...(args as any))) as T
+  ;(callable as any).run = run
+  ;(callable as any).kind = 'composable' as const
+  return callable
+}
+
+/**
+ * Calls a function as a composable with the given signal, which is forwarded to every step it composes.
+ */
+function callWithSignal(
+  fn: Function,
+  signal: AbortSignal | undefined,
+  args: unknown[],
+): Promise<Result<any>> {
+  return composable(fn as Internal.AnyFn).run(signal, ...args)
+}
+
+/**
+ * It receives an aborted signal and returns a Failure with an AbortError.
+ */
+function abortFailure(signal: AbortSignal): Failure {
+  const message = signal.reason instanceof Error
+    ? signal.reason.message
+    : 'The operation was aborted'
+  return failure([new AbortError(message)])
+}
+
 /**
  * Creates a composable function.
  * That function is gonna catch any errors and always return a Result.
@@ -44,24 +107,116 @@ function composable<T extends Function>(
       T extends Internal.AnyFn ? T : never
     >
   }
-  const callable = async (...args: any[]) => {
+  return toComposable(
+    // deno-lint-ignore no-explicit-any
+    (signal, ...args) => catchErrors(signal, () => fn(...(args as any[]))),
+  )
+}
+
+/**
+ * Creates a composable function that receives the AbortSignal it was called with as its first argument, so the signal can be handed to `fetch` and other cancellable APIs.
+ * When the composable is called without a signal, it receives a signal that is never aborted.
+ * @param fn a function that receives an AbortSignal followed by the arguments of the composable
+ * @example
+ * ```ts
+ * import { abortable } from 'composable-functions'
+ *
+ * const getUser = abortable(async (signal, id: string) => {
+ *   const response = await fetch(`/users/${id}`, { signal })
+ *   return response.json() as Promise<User>
+ * })
+ * //    ^? Composable<(id: string) => Promise<User>>
+ * ```
+ */
+function abortable<P extends unknown[], R>(
+  fn: (signal: AbortSignal, ...args: P) => R,
+): Composable<(...args: P) => R> {
+  return toComposable((signal, ...args) =>
+    catchErrors(
+      signal,
+      () => fn(signal ?? new AbortController().signal, ...args),
+    )
+  )
+}
+
+/**
+ * Creates a composable function that narrows down the errors it may fail with.
+ * Every error of a failure goes through `toKnownError`, which turns it into one of the errors in E. Only the AbortError of an aborted signal is kept as it is.
+ * `toKnownError` must not throw: the error it throws would be the error of the failure, which is outside of E.
+ * @param fn a function or a composable
+ * @param toKnownError a function that receives an error and returns one of the errors in E
+ * @example
+ * ```ts
+ * import { typedComposable } from 'composable-functions'
+ *
+ * const getUser = typedComposable(
+ *   (id: string) => db.users.find(id),
+ *   (error) => error instanceof NotFoundError ? error : new DatabaseError(error.message),
+ * )
+ * //    ^? Composable<(id: string) => User, NotFoundError | DatabaseError>
+ * ```
+ */
+function typedComposable<T extends Function, E extends Error>(
+  fn: T,
+  toKnownError: (error: Error) => E,
+): Composable<
+  (
+    ...args: Parameters<Extract<T, Internal.AnyFn>>
+  ) => UnpackData<Composable<Extract<T, Internal.AnyFn>>>,
+  E
+> {
+  return toComposable(async (signal, ...args) => {
+    const result = await callWithSignal(fn, signal, args)
+    if (result.success) return result
+
     try {
-      // deno-lint-ignore no-explicit-any
-      const result = await fn(...(args as any[]))
-      return success(result)
+      return failure(
+        result.errors.map((error) =>
+          error instanceof AbortError ? error : toKnownError(error)
+        ),
+      )
     } catch (e) {
-      if (e instanceof ErrorList) {
-        return failure(e.list)
-      }
       return failure([toError(e)])
     }
+  })
+}
+
+/**
+ * Returns the errors of an `ErrorList`, passing its cause on to copies of the errors that have none.
+ * The errors themselves are left unchanged, as they may be shared.
+ */
+function unwrapErrorList(list: ErrorList): Error[] {
+  const { cause } = list
+  if (cause === undefined) return list.list
+  const causeErrors = cause instanceof AggregateError ? cause.errors : [cause]
+  return list.list.map((error) =>
+    error.cause !== undefined || causeErrors.includes(error)
+      ? error
+      : copyError(error, { cause })
+  )
+}
+
+/**
+ * Runs the given function unless the signal is aborted, turning its outcome into a Result.
+ */
+async function catchErrors<T>(
+  signal: AbortSignal | undefined,
+  run: () => T,
+): Promise<Result<Awaited<T>>> {
+  if (signal?.aborted) return abortFailure(signal)
+  try {
+    return success(await run())
+  } catch (e) {
+    if (e instanceof ErrorList) {
+      return failure(unwrapErrorList(e))
+    }
+    return failure([toError(e)])
   }
-  callable.kind = 'composable' as const
-  return callable as Composable<T extends Internal.AnyFn ? T : never>
 }
 
 /**
  * It can be used to call a composable from another composable. It will return the output of the given function if it was successfull, otherwise it will throw a `ErrorList` that will bubble up to the parent function.
+ * The errors can be mapped with `onError`, in which case the original errors are kept as the `cause` of the mapped ones.
  * Also good to use it in successfull test cases.
  * @example
  * ```ts
@@ -77,16 +232,127 @@ function composable<T extends Function>(
  */
 function fromSuccess<O, P extends any[]>(
   fn: Composable<(...a: P) => O>,
-  onError: (errors: Error[]) => Error[] | Promise<Error[]> = (e) => e,
+  onError?: (errors: Error[]) => Error[] | Promise<Error[]>,
 ): (...args: P) => Promise<O> {
   return (async (...args: P) => {
     const result = await fn(...args)
     if (result.success) return result.data
 
-    throw new ErrorList(await onError(result.errors))
+    if (!onError) throw new ErrorList(result.errors)
+    throw new ErrorList(await onError(result.errors), {
+      cause: new AggregateError(result.errors),
+    })
   }) as (...args: P) => Promise<O>
 }
 
+/**
+ * It is used inside of `gen` to unwrap the data of a Result.
+ * When the Result is a Failure, the `gen` composable stops and fails with its errors.
+ * Given a function and its arguments instead of a Result, `gen` calls it as a composable forwarding its own signal.
+ * @param result the Result, or the Promise of a Result, returned by a composable
+ * @example
+ * ```ts
+ * const user = yield* step(getUser(id))
+ * //    ^? User
+ * const projects = yield* step(getProjects, user.id)
+ * //    ^? Project[]
+ * ```
+ */
+function step<T, E extends Error = Error>(
+  result: Result<T, E> | Promise<Result<T, E>>,
+): Generator<Result<T, E> | Promise<Result<T, E>>, T, T>
+function step<Fn extends Internal.AnyFn>(
+  fn: Fn,
+  ...args: Parameters<Fn>
+): Generator<
+  (signal: AbortSignal | undefined) => Promise<Result<unknown>>,
+  UnpackData<Composable<Fn>>,
+  UnpackData<Composable<Fn>>
+>
+function* step(
+  resultOrFn: unknown,
+  ...args: unknown[]
+): Generator<unknown, unknown, unknown> {
+  return yield typeof resultOrFn === 'function'
+    ? (signal: AbortSignal | undefined) =>
+      callWithSignal(resultOrFn, signal, args)
+    : resultOrFn
+}
+
+/**
+ * Checks whether a value yielded to `gen` is a Result.
+ */
+function isResult(value: unknown): value is Result<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Result<unknown>).success === 'boolean' &&
+    Array.isArray((value as Result<unknown>).errors)
+  )
+}
+
+/**
+ * Creates a composable out of a generator function, allowing composables to be composed imperatively.
+ * Every Result yielded with `step` is unwrapped to its data. When one of them is a Failure, the composable stops and fails with its errors.
+ * The signal of the composable is forwarded to the functions called with `step(fn, ...args)`.
+ * @param fn a generator function that yields the results of composables using `step`
+ * @example
+ * ```ts
+ * import { gen, step } from 'composable-functions'
+ *
+ * const getUserProjects = gen(function* (id: string) {
+ *   const user = yield* step(getUser(id))
+ *   if (!user.active) return []
+ *   return yield* step(getProjects(user.id))
+ * })
+ * //    ^? Composable<(id: string) => Project[]>
+ * ```
+ */
+function gen<
+  Args extends unknown[],
+  Y extends
+    | Result<unknown>
+    | Promise<Result<unknown>>
+    | ((signal: AbortSignal | undefined) => Promise<Result<unknown>>),
+  R,
+>(
+  fn: (...args: Args) => Generator<Y, R, any>,
+): GenReturn<Args, R> {
+  return toComposable(async (signal, ...args) => {
+    if (signal?.aborted) return abortFailure(signal)
+    try {
+      const iterator = fn(...(args as Args))
+      let next = iterator.next()
+      while (!next.done) {
+        const result: unknown = await (typeof next.value === 'function'
+          ? next.value(signal)
+          : next.value)
+        if (!isResult(result)) {
+          iterator.return(undefined as R)
+          return failure([
+            new Error('gen can only yield results, use `yield* step(...)`'),
+          ])
+        }
+        if (!result.success) {
+          iterator.return(undefined as R)
+          return failure(result.errors)
+        }
+        if (signal?.aborted) {
+          iterator.return(undefined as R)
+          return abortFailure(signal)
+        }
+        next = iterator.next(result.data)
+      }
+      return success(await next.value)
+    } catch (e) {
+      if (e instanceof ErrorList) {
+        return failure(unwrapErrorList(e))
+      }
+      return failure([toError(e)])
+    }
+  })
+}
+
 /**
  * Takes a function and creates a ComposableWithSchema that will assert the input and context types according to the given schemas.
  * @param fn a function
@@ -116,7 +382,7 @@ function applySchema<ParsedInput, ParsedContext>(
   return <R, Input extends ParsedInput, Context extends ParsedContext>(
     fn: (input: Input, context: Context) => R,
   ): ApplySchemaReturn<ParsedInput, ParsedContext, typeof fn> => {
-    const callable = (async (input?: unknown, context?: unknown) => {
+    return toComposable(async (signal, ...[input, context]) => {
       const [ctxResult, result] = await Promise.all([
         (contextSchema ?? alwaysUnknownSchema)['~standard']
           .validate(
@@ -137,10 +403,8 @@ function applySchema<ParsedInput, ParsedContext>(
         )
         return Promise.resolve(failure([...inputErrors, ...ctxErrors]))
       }
-      return composable(fn)(result.value as Input, ctxResult.value as Context)
-    }) as ApplySchemaReturn<ParsedInput, ParsedContext, typeof fn>
-    ;(callable as any).kind = 'composable' as const
-    return callable
+      return callWithSignal(fn, signal, [result.value, ctxResult.value])
+    })
   }
 }
 
@@ -164,4 +428,19 @@ const alwaysUnknownSchema: StandardSchema<unknown, unknown> = {
   },
 }
 
-export { applySchema, composable, failure, fromSuccess, success, withSchema }
+export {
+  abortable,
+  applySchema,
+  callWithSignal,
+  composable,
+  copyError,
+  failure,
+  fromSuccess,
+  gen,
+  step,
+  success,
+  toComposable,
+  toError,
+  typedComposable,
+  withSchema,
+}
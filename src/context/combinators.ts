@@ -1,17 +1,40 @@
-import type { Composable, UnpackData } from '../types.ts'
+import type { Composable, Result, UnpackData, UnpackErrors } from '../types.ts'
 import * as A from '../combinators.ts'
-import { composable, fromSuccess } from '../constructors.ts'
-import type { BranchReturn, PipeReturn, SequenceReturn } from './types.ts'
+import {
+  callWithSignal,
+  composable,
+  fromSuccess,
+  toComposable,
+} from '../constructors.ts'
+import { ContextError, ErrorList } from '../errors.ts'
+import type { StandardSchemaV1 as StandardSchema } from '@standard-schema/spec'
+import type {
+  AllReturn,
+  BranchReturn,
+  CatchFailureReturn,
+  CollectReturn,
+  ContextOf,
+  ExtendContextReturn,
+  InputOf,
+  MapContextReturn,
+  MapErrorsReturn,
+  MapParametersReturn,
+  MapReturn,
+  PipeReturn,
+  ProvideContextReturn,
+  SequenceReturn,
+  TraceReturn,
+} from './types.ts'
 import type { Internal } from '../internal/types.ts'
 
 function applyContextToList<
   Fns extends Array<(input: unknown, context: unknown) => unknown>,
 >(fns: Fns, context: unknown) {
-  return fns.map((fn) => {
-    const callable = ((input) => composable(fn)(input, context)) as Composable
-    callable.kind = 'composable' as const
-    return callable
-  }) as Composable[]
+  return fns.map((fn) =>
+    toComposable<Composable>((signal, input) =>
+      callWithSignal(fn, signal, [input, context])
+    )
+  )
 }
 
 /**
@@ -31,17 +54,18 @@ function applyContextToList<
 function pipe<Fns extends Function[]>(
   ...fns: Fns
 ): PipeReturn<Internal.Composables<Fns>> {
-  const callable = ((input: any, context: any) =>
-    A.pipe(
-      ...applyContextToList(fns as unknown as Internal.AnyFn[], context) as [
-        Composable,
-        ...Composable[],
-      ],
-    )(input)) as PipeReturn<
-      Internal.Composables<Fns>
-    >
-  ;(callable as any).kind = 'composable' as const
-  return callable
+  return toComposable((signal, ...[input, context]) =>
+    callWithSignal(
+      A.pipe(
+        ...applyContextToList(fns as unknown as Internal.AnyFn[], context) as [
+          Composable,
+          ...Composable[],
+        ],
+      ),
+      signal,
+      [input],
+    )
+  )
 }
 
 /**
@@ -62,17 +86,80 @@ function pipe<Fns extends Function[]>(
 function sequence<Fns extends Function[]>(
   ...fns: Fns
 ): SequenceReturn<Internal.Composables<Fns>> {
-  const callable = ((input: any, context: any) =>
-    A.sequence(
-      ...applyContextToList(fns as unknown as Internal.AnyFn[], context) as [
-        Composable,
-        ...Composable[],
-      ],
-    )(
-      input,
-    )) as SequenceReturn<Internal.Composables<Fns>>
-  ;(callable as any).kind = 'composable' as const
-  return callable
+  return toComposable((signal, ...[input, context]) =>
+    callWithSignal(
+      A.sequence(
+        ...applyContextToList(fns as unknown as Internal.AnyFn[], context) as [
+          Composable,
+          ...Composable[],
+        ],
+      ),
+      signal,
+      [input],
+    )
+  )
+}
+
+/**
+ * Works like `all` but it will pass the same context to all given functions, which run in parallel with the same input.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const a = (id: number, user: User) => getProfile(id, user)
+ * const b = (id: number, user: User) => getPosts(id, user)
+ * const cf = withContext.all(a, b)
+ * //    ^? Composable<(id: number, user: User) => [Profile, Post[]]>
+ * ```
+ */
+function all<Fns extends Function[]>(
+  ...fns: Fns
+): AllReturn<Internal.Composables<Fns>> {
+  return toComposable((signal, ...[input, context]) =>
+    callWithSignal(
+      A.all(
+        ...applyContextToList(fns as unknown as Internal.AnyFn[], context),
+      ),
+      signal,
+      [input],
+    )
+  )
+}
+
+/**
+ * Works like `collect` but it will pass the same context to all given functions, which run in parallel with the same input.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const profile = (id: number, user: User) => getProfile(id, user)
+ * const posts = (id: number, user: User) => getPosts(id, user)
+ * const cf = withContext.collect({ profile, posts })
+ * //    ^? Composable<(id: number, user: User) => { profile: Profile, posts: Post[] }>
+ * ```
+ */
+function collect<Fns extends Record<string, Function>>(
+  fns: Fns,
+): CollectReturn<Internal.Composables<Fns>> {
+  return toComposable((signal, ...[input, context]) => {
+    const fnsWithContext = applyContextToList(
+      Object.values(fns) as unknown as Internal.AnyFn[],
+      context,
+    )
+    return callWithSignal(
+      A.collect(
+        Object.fromEntries(
+          Object.keys(fns).map((key, index) => [key, fnsWithContext[index]]),
+        ),
+      ),
+      signal,
+      [input],
+    )
+  })
 }
 
 /**
@@ -89,22 +176,360 @@ function branch<
 ): SourceComposable extends Internal.AnyFn
   ? BranchReturn<Composable<SourceComposable>, Resolver>
   : never {
-  const callable =
-    (async (...args: Parameters<Extract<SourceComposable, Internal.AnyFn>>) => {
-      const [input, context] = args
-      const result = await composable(cf)(input, context)
-      if (!result.success) return result
+  return toComposable(async (signal, ...args) => {
+    const [input, context] = args
+    const result = await callWithSignal(cf, signal, [input, context])
+    if (!result.success) return result
 
-      return composable(async () => {
+    return callWithSignal(
+      async () => {
         const nextFn = await resolver(result.data)
         if (typeof nextFn !== 'function') return result.data
-        return fromSuccess(composable(nextFn))(result.data, context)
-      })()
-    }) as SourceComposable extends Internal.AnyFn
-      ? BranchReturn<Composable<SourceComposable>, Resolver>
-      : never
-  ;(callable as any).kind = 'composable' as const
-  return callable
+        return fromSuccess(A.withSignal(nextFn as Internal.AnyFn, signal))(
+          result.data,
+          context,
+        )
+      },
+      signal,
+      [],
+    )
+  })
+}
+
+/**
+ * Binds the given composable to the context calling convention: the resulting composable only receives the input and the context.
+ */
+function withInputAndContext<T>(fn: Composable): T {
+  return toComposable<T>((signal, ...[input, context]) =>
+    callWithSignal(fn, signal, [input, context])
+  )
+}
+
+/**
+ * Works like `map` but the mapper receives the input and the context of the given function explicitly.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const getPost = (id: number, ctx: { user: User }) => db.posts.find({ id })
+ * const getTitle = withContext.map(
+ *   getPost,
+ *   (post, id, ctx) => `${post.title} by ${ctx.user.name}`,
+ * )
+ * //    ^? Composable<(id: number, ctx: { user: User }) => string>
+ * ```
+ */
+function map<Fn extends Function, O>(
+  fn: Fn,
+  mapper: (
+    res: UnpackData<Composable<Extract<Fn, Internal.AnyFn>>>,
+    input: InputOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+    context: ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+  ) => O | Promise<O>,
+): Fn extends Internal.AnyFn ? MapReturn<Composable<Fn>, O> : never {
+  return withInputAndContext(
+    A.map(fn as unknown as Internal.AnyFn, mapper as Internal.AnyFn),
+  )
+}
+
+/**
+ * Works like `mapParameters` but the mapper receives the input and the context explicitly and returns only the input of the given function. The context is forwarded unchanged.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const getPost = ({ id }: { id: number }, ctx: { user: User }) =>
+ *   db.posts.find({ id, authorId: ctx.user.id })
+ * const getPostById = withContext.mapParameters(getPost, (id: number) => ({ id }))
+ * //    ^? Composable<(input: number, ctx: { user: User }) => Post>
+ * ```
+ */
+function mapParameters<
+  Fn extends Function,
+  NewInput,
+  const MapperOutput extends InputOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+>(
+  fn: Fn,
+  mapper: (
+    input: NewInput,
+    context: ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+  ) => MapperOutput | Promise<MapperOutput>,
+): Fn extends Internal.AnyFn
+  ? MapParametersReturn<Composable<Fn>, NewInput, MapperOutput>
+  : never {
+  return withInputAndContext(
+    A.mapParameters(
+      fn as unknown as Internal.AnyFn,
+      async (input: NewInput, context: any) => [
+        await mapper(input, context),
+        context,
+      ],
+    ),
+  )
+}
+
+/**
+ * Works like `mapErrors` but the mapper receives the input and the context of the given function explicitly.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const getPost = (id: number, ctx: { user: User }) => db.posts.find({ id })
+ * const withLogging = withContext.mapErrors(getPost, (errors, id, ctx) =>
+ *   errors.map((e) => new Error(`${ctx.user.id} could not read ${id}: ${e.message}`))
+ * )
+ * ```
+ */
+function mapErrors<
+  Fn extends Function,
+  M extends (
+    err: UnpackErrors<Composable<Extract<Fn, Internal.AnyFn>>>[],
+    input: InputOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+    context: ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+  ) => Error[] | Promise<Error[]> | Promise<Result<Error[]>>,
+>(
+  fn: Fn,
+  mapper: M,
+): Fn extends Internal.AnyFn ? MapErrorsReturn<Composable<Fn>, Composable<M>>
+  : never {
+  return withInputAndContext(
+    A.mapErrors(fn as unknown as Internal.AnyFn, mapper as Internal.AnyFn),
+  )
+}
+
+/**
+ * Works like `catchFailure` but the catcher receives the input and the context of the given function explicitly.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const getPost = (id: number, ctx: { user: User }) => db.posts.find({ id })
+ * const getPostOrDraft = withContext.catchFailure(getPost, (errors, id, ctx) =>
+ *   db.drafts.find({ id, authorId: ctx.user.id })
+ * )
+ * ```
+ */
+function catchFailure<
+  Fn extends Function,
+  C extends (
+    err: UnpackErrors<Composable<Extract<Fn, Internal.AnyFn>>>[],
+    input: InputOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+    context: ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+  ) => any,
+>(
+  fn: Fn,
+  catcher: C,
+): Fn extends Internal.AnyFn ? CatchFailureReturn<Composable<Fn>, Composable<C>>
+  : never {
+  return withInputAndContext(
+    A.catchFailure(fn as unknown as Internal.AnyFn, catcher),
+  )
+}
+
+/**
+ * Works like `trace` but the trace function receives the input and the context of the given function explicitly.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from 'composable-functions'
+ *
+ * const trackErrors = withContext.trace((result, input, ctx) => {
+ *   if (!result.success) sendToExternalService({ result, input, user: ctx.user })
+ * })
+ * const getPost = (id: number, ctx: { user: User }) => db.posts.find({ id })
+ * const getPostAndTrackErrors = trackErrors(getPost)
+ * //    ^? Composable<(id: number, ctx: { user: User }) => Post>
+ * ```
+ */
+function trace(
+  traceFn: (
+    result: Result<unknown>,
+    input: unknown,
+    context: unknown,
+  ) => Promise<void> | void,
+): <Fn extends Function>(
+  fn: Fn,
+) => Fn extends Internal.AnyFn ? TraceReturn<Composable<Fn>> : never {
+  return ((fn: Internal.AnyFn) =>
+    withInputAndContext(
+      A.trace((result, input, context) => traceFn(result, input, context))(fn),
+    )) as <Fn extends Function>(
+      fn: Fn,
+    ) => Fn extends Internal.AnyFn ? TraceReturn<Composable<Fn>> : never
+}
+
+/**
+ * It binds a context to a context-aware function, returning a composable that only receives the input.
+ * The context can be given as a value or as a function that creates it, which is called on the first call.
+ * The context is resolved - and validated against the given schema - only once it succeeds. When it fails or it is invalid, the call fails with its errors - such as the `ContextError`s of the schema - and the context is resolved again on the next call.
+ *
+ * @param fn the context-aware function
+ * @param context the context or a function that creates it
+ * @param options.schema a schema to validate the context with, such as the context schema given to `applySchema`
+ *
+ * @example
+ *
+ * ```ts
+ * import { provideContext } from 'composable-functions'
+ *
+ * const getPost = (id: number, ctx: { user: User }) => db.posts.find({ id })
+ * const getMyPost = provideContext(getPost, { user: await getUser(request) })
+ * //    ^? Composable<(id: number) => Post>
+ * ```
+ */
+function provideContext<Fn extends Function>(
+  fn: Fn,
+  context:
+    | ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>
+    | (() =>
+      | ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>
+      | Promise<ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>>),
+  options: {
+    schema?: StandardSchema<
+      unknown,
+      ContextOf<Composable<Extract<Fn, Internal.AnyFn>>>
+    >
+  } = {},
+): Fn extends Internal.AnyFn ? ProvideContextReturn<Composable<Fn>> : never {
+  const resolveContext = composable(async () => {
+    const value = typeof context === 'function'
+      ? await (context as () => unknown)()
+      : context
+    if (!options.schema) return value
+
+    const result = await options.schema['~standard'].validate(value)
+    if (result.issues) {
+      throw new ErrorList(
+        result.issues.map((issue) =>
+          new ContextError(issue.message, issue.path as string[])
+        ),
+      )
+    }
+    return result.value
+  })
+  let resolved: ReturnType<typeof resolveContext> | undefined
+  const provided = () => {
+    if (resolved) return resolved
+    const pending = resolveContext()
+    resolved = pending
+    // a failed context is not cached so the next call tries again
+    pending.then((result) => {
+      if (!result.success && resolved === pending) resolved = undefined
+    })
+    return pending
+  }
+  if (typeof context !== 'function') provided()
+
+  return toComposable(async (signal, ...[input]) => {
+    const result = await provided()
+    if (!result.success) return result
+
+    return callWithSignal(fn as unknown as Internal.AnyFn, signal, [
+      input,
+      result.data,
+    ])
+  })
+}
+
+/**
+ * It takes a context-aware function and a mapper that transforms the context it receives into the context the function expects. Good to reuse a function or a composition in a composition with a different context.
+ *
+ * @example
+ *
+ * ```ts
+ * import { mapContext, withContext } from 'composable-functions'
+ *
+ * const getPost = (id: number, ctx: { db: Db }) => ctx.db.posts.find({ id })
+ * const getPostForUser = mapContext(
+ *   getPost,
+ *   (ctx: { db: Db; user: User; flags: Flags }) => ({ db: ctx.db }),
+ * )
+ * //    ^? Composable<(id: number, ctx: { db: Db; user: User; flags: Flags }) => Post>
+ * ```
+ */
+function mapContext<
+  Fn extends Function,
+  OuterContext,
+  const MapperOutput extends ContextOf<
+    Composable<Extract<Fn, Internal.AnyFn>>
+  >,
+>(
+  fn: Fn,
+  mapper: (context: OuterContext) => MapperOutput | Promise<MapperOutput>,
+): Fn extends Internal.AnyFn ? MapContextReturn<Composable<Fn>, OuterContext>
+  : never {
+  return withInputAndContext(
+    A.mapParameters(
+      fn as unknown as Internal.AnyFn,
+      async (input: unknown, context: OuterContext) => [
+        input,
+        await mapper(context),
+      ],
+    ),
+  )
 }
 
-export { branch, pipe, sequence }
+/**
+ * It takes a context-aware function and a function that derives more context from the input and the context it receives. The given function is called with both contexts merged. Good to add data loaded by a previous step to the context of the next steps.
+ *
+ * @example
+ *
+ * ```ts
+ * import { extendContext, withContext } from 'composable-functions'
+ *
+ * const createPost = (input: PostInput, ctx: { db: Db; user: User }) =>
+ *   ctx.db.posts.create({ ...input, authorId: ctx.user.id })
+ * const createUserPost = extendContext(
+ *   createPost,
+ *   async (input, ctx: { db: Db }) => ({ user: await ctx.db.users.find(input.userId) }),
+ * )
+ * //    ^? Composable<(input: PostInput, ctx: { db: Db }) => Post>
+ * ```
+ */
+function extendContext<
+  Fn extends Function,
+  Ctx,
+  Extra extends object,
+>(
+  fn: Fn,
+  extender: (
+    input: InputOf<Composable<Extract<Fn, Internal.AnyFn>>>,
+    context: Ctx,
+  ) => Extra | Promise<Extra>,
+): Fn extends Internal.AnyFn ? ExtendContextReturn<Composable<Fn>, Ctx, Extra>
+  : never {
+  return withInputAndContext(
+    A.mapParameters(
+      fn as unknown as Internal.AnyFn,
+      async (input: any, context: Ctx) => [
+        input,
+        { ...context, ...(await extender(input, context)) },
+      ],
+    ),
+  )
+}
+
+export {
+  all,
+  branch,
+  catchFailure,
+  collect,
+  extendContext,
+  map,
+  mapContext,
+  mapErrors,
+  mapParameters,
+  pipe,
+  provideContext,
+  sequence,
+  trace,
+}
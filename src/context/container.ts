@@ -0,0 +1,85 @@
+import { provideContext } from './combinators.ts'
+import type { Internal } from '../internal/types.ts'
+import type { Container, ServiceDefinition, ServicesOf } from './types.ts'
+
+/**
+ * Creates a container of services to be used as the context of context-aware functions.
+ * The services are created lazily, only when a scope resolves them. A `'singleton'` service is created once for the container, a `'request'` service is created once for every scope.
+ * Only the `'request'` services receive the request of the scope, as a `'singleton'` is shared by every request.
+ *
+ * @param definitions the services, by key
+ *
+ * @example
+ *
+ * ```ts
+ * import { createContainer } from 'composable-functions'
+ *
+ * const container = createContainer({
+ *   db: { lifetime: 'singleton', create: () => connect(DATABASE_URL) },
+ *   user: { create: (request: Request) => getUser(request) },
+ * })
+ *
+ * const createPost = (input: PostInput, ctx: { db: Db; user: User }) =>
+ *   ctx.db.posts.create({ ...input, authorId: ctx.user.id })
+ *
+ * export async function action({ request }: ActionFunctionArgs) {
+ *   const scope = container.createScope(request)
+ *   const create = scope.provide(createPost, 'db', 'user')
+ *   //    ^? Composable<(input: PostInput) => Post>
+ *   return create(await request.json())
+ * }
+ * ```
+ */
+function createContainer<Defs extends Record<string, ServiceDefinition>>(
+  definitions: Defs,
+): Container<Defs> {
+  const singletons = new Map<string, Promise<unknown>>()
+
+  const createScope = (
+    request: unknown,
+    overrides: Partial<ServicesOf<Defs>> = {},
+  ) => {
+    const instances = new Map<string, Promise<unknown>>()
+
+    const instance = (key: string): Promise<unknown> => {
+      if (Object.prototype.hasOwnProperty.call(overrides, key)) {
+        return Promise.resolve((overrides as Record<string, unknown>)[key])
+      }
+      if (!Object.prototype.hasOwnProperty.call(definitions, key)) {
+        return Promise.reject(new Error(`Unknown service: ${key}`))
+      }
+      const definition = definitions[key]
+      const cache = definition.lifetime === 'singleton' ? singletons : instances
+      const cached = cache.get(key)
+      if (cached) return cached
+
+      const created = Promise.resolve().then(() =>
+        definition.lifetime === 'singleton'
+          ? definition.create()
+          : definition.create(request)
+      )
+      cache.set(key, created)
+      // a failed creation is not cached so the next resolution tries again
+      created.catch(() => {
+        if (cache.get(key) === created) cache.delete(key)
+      })
+      return created
+    }
+
+    const resolve = async (...keys: string[]) =>
+      Object.fromEntries(
+        await Promise.all(
+          keys.map(async (key) => [key, await instance(key)] as const),
+        ),
+      )
+
+    const provide = (fn: Internal.AnyFn, ...keys: string[]) =>
+      provideContext(fn, () => resolve(...keys) as Promise<any>)
+
+    return { resolve, provide }
+  }
+
+  return { createScope } as Container<Defs>
+}
+
+export { createContainer }
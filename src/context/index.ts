@@ -1 +1,12 @@
-export { branch, pipe, sequence } from './combinators.ts'
+export {
+  all,
+  branch,
+  catchFailure,
+  collect,
+  map,
+  mapErrors,
+  mapParameters,
+  pipe,
+  sequence,
+  trace,
+} from './combinators.ts'
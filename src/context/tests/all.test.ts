@@ -0,0 +1,94 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import {
+  composable,
+  ContextError,
+  failure,
+  success,
+  withContext,
+} from '../../index.ts'
+import type { Composable } from '../../index.ts'
+import type { Internal } from '../../internal/types.ts'
+
+describe('all', () => {
+  it('should run the functions in parallel with the same input and context', async () => {
+    const a = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+    const b = (id: number, ctx: { user: string }) => id + ctx.user.length
+
+    const c = withContext.all(a, b)
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { user: string }) => [string, number]>
+      >
+    >
+
+    assertEquals(
+      await c(1, { user: 'john' }),
+      success<[string, number]>([
+        'john:1',
+        5,
+      ]),
+    )
+  })
+
+  it('should compute the common context of the functions', async () => {
+    const a = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+    const b = (id: number, ctx: { user: string; role: string }) =>
+      `${ctx.role}:${id}`
+    const c = (id: number) => id
+
+    const d = withContext.all(a, b, c)
+    type _R = Expect<
+      Equal<
+        typeof d,
+        Composable<
+          (
+            id: number,
+            ctx: { user: string; role: string },
+          ) => [string, string, number]
+        >
+      >
+    >
+
+    assertEquals(
+      await d(1, { user: 'john', role: 'admin' }),
+      success<[string, string, number]>(['john:1', 'admin:1', 1]),
+    )
+  })
+
+  it('should fail with the errors of every failed function', async () => {
+    const a = composable((id: number, ctx: { user?: string }) => {
+      if (!ctx.user) throw new ContextError('Required', ['user'])
+      return ctx.user + id
+    })
+    const b = composable((_id: number, _ctx: { user?: string }) => {
+      throw new Error('b failed')
+    })
+
+    const c = withContext.all(a, b)
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { user?: string }) => [string, never]>
+      >
+    >
+
+    assertEquals(
+      await c(1, {}),
+      failure([new ContextError('Required', ['user']), new Error('b failed')]),
+    )
+  })
+
+  it('should not compose functions with incompatible contexts', () => {
+    const a = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+    const b = (id: number, ctx: number) => id + ctx
+
+    const c = withContext.all(a, b)
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Internal.FailToCompose<[{ user: string }], [number]>
+      >
+    >
+  })
+})
@@ -0,0 +1,38 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+
+describe('catchFailure', () => {
+  it('should call the catcher with the errors, the input and the context', async () => {
+    const getPost = (_id: number, _ctx: { user: string }): string => {
+      throw new Error('Not found')
+    }
+
+    const c = withContext.catchFailure(
+      getPost,
+      (errors, id, ctx) => `${ctx.user}/${id}: ${errors[0].message}`,
+    )
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { user: string }) => string>
+      >
+    >
+
+    assertEquals(await c(1, { user: 'john' }), success('john/1: Not found'))
+  })
+
+  it('should return the result of the function when it succeeds', async () => {
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = withContext.catchFailure(getPost, () => null)
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { user: string }) => string | null>
+      >
+    >
+
+    assertEquals(await c(1, { user: 'john' }), success('john:1'))
+  })
+})
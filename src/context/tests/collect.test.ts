@@ -0,0 +1,61 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { composable, failure, success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+import type { Internal } from '../../internal/types.ts'
+
+describe('collect', () => {
+  it('should collect the results of the functions with the same input and context', async () => {
+    const profile = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+    const posts = (id: number, ctx: { user: string; role: string }) => [
+      `${ctx.role}:${id}`,
+    ]
+
+    const c = withContext.collect({ profile, posts })
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<
+          (
+            id: number,
+            ctx: { user: string; role: string },
+          ) => { profile: string; posts: string[] }
+        >
+      >
+    >
+
+    assertEquals(
+      await c(1, { user: 'john', role: 'admin' }),
+      success({ profile: 'john:1', posts: ['admin:1'] }),
+    )
+  })
+
+  it('should fail with the errors of every failed function', async () => {
+    const a = composable((_id: number, _ctx: { user: string }) => {
+      throw new Error('a failed')
+    })
+    const b = composable((_id: number, _ctx: { user: string }) => {
+      throw new Error('b failed')
+    })
+
+    const c = withContext.collect({ a, b })
+
+    assertEquals(
+      await c(1, { user: 'john' }),
+      failure([new Error('a failed'), new Error('b failed')]),
+    )
+  })
+
+  it('should not compose functions with incompatible contexts', () => {
+    const a = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+    const b = (id: number, ctx: number) => id + ctx
+
+    const c = withContext.collect({ a, b })
+    // The order of the keys of a record is not preserved, so neither is the order of the arguments of FailToCompose
+    type _R = Expect<
+      Equal<
+        typeof c extends Internal.IncompatibleArguments ? true : false,
+        true
+      >
+    >
+  })
+})
@@ -0,0 +1,173 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { createContainer, failure, success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+import type { Internal } from '../../internal/types.ts'
+
+type Db = { find: (id: number) => string }
+type Clock = { now: () => number }
+
+function makeContainer() {
+  const created: string[] = []
+  const container = createContainer({
+    db: {
+      lifetime: 'singleton',
+      create: (): Db => {
+        created.push('db')
+        return { find: (id) => `post ${id}` }
+      },
+    },
+    clock: {
+      create: (): Clock => {
+        created.push('clock')
+        return { now: () => 42 }
+      },
+    },
+    user: {
+      create: async (request: Request) => {
+        created.push('user')
+        return { name: await Promise.resolve(new URL(request.url).hostname) }
+      },
+    },
+  })
+  return { container, created }
+}
+
+const request = new Request('http://john/posts')
+
+describe('createContainer', () => {
+  it('should provide the services a function needs', async () => {
+    const { container, created } = makeContainer()
+    const getPost = (id: number, ctx: { db: Db; user: { name: string } }) =>
+      `${ctx.db.find(id)} for ${ctx.user.name}`
+
+    const fn = container.createScope(request).provide(getPost, 'db', 'user')
+    type _R = Expect<Equal<typeof fn, Composable<(id: number) => string>>>
+
+    assertEquals(await fn(1), success('post 1 for john'))
+    assertEquals(created.sort(), ['db', 'user'])
+  })
+
+  it('should provide the common context of a composition', async () => {
+    const { container } = makeContainer()
+    const getPost = (id: number, ctx: { db: Db }) => ctx.db.find(id)
+    const stamp = (post: string, ctx: { db: Db; clock: Clock }) =>
+      `${post} at ${ctx.clock.now()}`
+
+    const fn = container.createScope(request).provide(
+      withContext.pipe(getPost, stamp),
+      'db',
+      'clock',
+    )
+    type _R = Expect<Equal<typeof fn, Composable<(id: number) => string>>>
+
+    assertEquals(await fn(1), success('post 1 at 42'))
+  })
+
+  it('should not compose when a needed service is not provided', () => {
+    const { container } = makeContainer()
+    const getPost = (id: number, ctx: { db: Db; clock: Clock }) =>
+      ctx.db.find(id)
+
+    const fn = container.createScope(request).provide(getPost, 'db')
+    type _R = Expect<
+      Equal<
+        typeof fn,
+        Internal.FailToCompose<{ db: Db }, { db: Db; clock: Clock }>
+      >
+    >
+  })
+
+  it('should create singletons once and request services once per scope', async () => {
+    const { container, created } = makeContainer()
+
+    const scope = container.createScope(request)
+    await scope.resolve('db', 'clock')
+    await scope.resolve('db', 'clock')
+    await container.createScope(request).resolve('db', 'clock')
+
+    assertEquals(created.sort(), ['clock', 'clock', 'db'])
+  })
+
+  it('should not give the request of a scope to a singleton', async () => {
+    const received: unknown[][] = []
+    const container = createContainer({
+      tenant: {
+        lifetime: 'singleton',
+        create: (...args: unknown[]) => {
+          received.push(args)
+          return 'shared'
+        },
+      },
+      user: {
+        create: (request: Request) => new URL(request.url).hostname,
+      },
+    })
+    type _R = Expect<
+      Equal<Parameters<typeof container.createScope>[0], Request>
+    >
+
+    await container.createScope(new Request('http://alice/')).resolve('tenant')
+    await container.createScope(new Request('http://bob/')).resolve('tenant')
+
+    assertEquals(received, [[]])
+  })
+
+  it('should only accept singletons that do not need a request', () => {
+    createContainer({
+      // @ts-expect-error: a singleton is shared by every request
+      tenant: {
+        lifetime: 'singleton',
+        create: (request: Request) => new URL(request.url).hostname,
+      },
+    })
+  })
+
+  it('should use the overrides instead of creating the services', async () => {
+    const { container, created } = makeContainer()
+    const clock: Clock = { now: () => 0 }
+
+    const services = await container
+      .createScope(request, { clock })
+      .resolve('clock')
+
+    assertEquals(services, { clock })
+    assertEquals(created, [])
+  })
+
+  it('should fail when a service cannot be created', async () => {
+    const container = createContainer({
+      db: {
+        create: (): Db => {
+          throw new Error('Connection refused')
+        },
+      },
+    })
+    const getPost = (id: number, ctx: { db: Db }) => ctx.db.find(id)
+
+    const fn = container.createScope(undefined).provide(getPost, 'db')
+
+    assertEquals(await fn(1), failure([new Error('Connection refused')]))
+  })
+
+  it('should create a service again after it failed', async () => {
+    let attempts = 0
+    const container = createContainer({
+      db: {
+        lifetime: 'singleton',
+        create: (): Db => {
+          attempts++
+          if (attempts === 1) throw new Error('Connection refused')
+          return { find: (id) => `post ${id}` }
+        },
+      },
+    })
+    const getPost = (id: number, ctx: { db: Db }) => ctx.db.find(id)
+
+    const fn = container.createScope(undefined).provide(getPost, 'db')
+
+    assertEquals(await fn(1), failure([new Error('Connection refused')]))
+    assertEquals(await fn(1), success('post 1'))
+    assertEquals(await fn(2), success('post 2'))
+    assertEquals(attempts, 2)
+  })
+})
@@ -0,0 +1,72 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { extendContext, success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+import type { Internal } from '../../internal/types.ts'
+
+describe('extendContext', () => {
+  it('should merge the derived context into the context of the function', async () => {
+    const createPost = (
+      input: { userId: number; title: string },
+      ctx: { db: string; user: string },
+    ) => `${ctx.db}: ${input.title} by ${ctx.user}`
+
+    const c = extendContext(
+      createPost,
+      (input, ctx: { db: string }) => ({ user: `${ctx.db}-${input.userId}` }),
+    )
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<
+          (
+            input: { userId: number; title: string },
+            ctx: { db: string },
+          ) => string
+        >
+      >
+    >
+
+    assertEquals(
+      await c({ userId: 1, title: 'Hello' }, { db: 'main' }),
+      success('main: Hello by main-1'),
+    )
+  })
+
+  it('should add context for the next steps of a composition', async () => {
+    const loadUser = (id: number, ctx: { db: string }) => ({ id, db: ctx.db })
+    const greet = (
+      user: { id: number },
+      ctx: { db: string; user: { id: number } },
+    ) => `${ctx.db}: ${user.id} is ${ctx.user.id}`
+
+    const c = withContext.pipe(
+      loadUser,
+      extendContext(greet, async (user, _ctx: { db: string }) => ({
+        user: await Promise.resolve(user),
+      })),
+    )
+    type _R = Expect<
+      Equal<typeof c, Composable<(id: number, ctx: { db: string }) => string>>
+    >
+
+    assertEquals(await c(1, { db: 'main' }), success('main: 1 is 1'))
+  })
+
+  it('should not compose when the merged context is incompatible', () => {
+    const createPost = (title: string, ctx: { db: string; user: string }) =>
+      `${ctx.db}: ${title} by ${ctx.user}`
+
+    const c = extendContext(createPost, (_title, _ctx: { db: string }) => ({
+      flags: [],
+    }))
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Internal.FailToCompose<
+          { db: string } & { flags: never[] },
+          { db: string; user: string }
+        >
+      >
+    >
+  })
+})
@@ -0,0 +1,66 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { failure, mapContext, success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+
+type Outer = { db: string; user: string; flags: string[] }
+
+describe('mapContext', () => {
+  it('should transform the context before calling the function', async () => {
+    const getPost = (id: number, ctx: { database: string }) =>
+      `${ctx.database}:${id}`
+
+    const c = mapContext(getPost, (ctx: Outer) => ({ database: ctx.db }))
+    type _R = Expect<
+      Equal<typeof c, Composable<(id: number, ctx: Outer) => string>>
+    >
+
+    assertEquals(
+      await c(1, { db: 'main', user: 'john', flags: [] }),
+      success('main:1'),
+    )
+  })
+
+  it('should embed a composition in a composition with a different context', async () => {
+    const getPost = (id: number, ctx: { database: string }) =>
+      `${ctx.database}:${id}`
+    const stamp = (post: string, ctx: Outer) => `${post} by ${ctx.user}`
+
+    const c = withContext.pipe(
+      mapContext(
+        withContext.pipe(getPost),
+        (ctx: Outer) => ({ database: ctx.db }),
+      ),
+      stamp,
+    )
+    type _R = Expect<
+      Equal<typeof c, Composable<(id: number, ctx: Outer) => string>>
+    >
+
+    assertEquals(
+      await c(1, { db: 'main', user: 'john', flags: [] }),
+      success('main:1 by john'),
+    )
+  })
+
+  it('should fail when the mapper fails', async () => {
+    const getPost = (id: number, ctx: { database: string }) =>
+      `${ctx.database}:${id}`
+
+    const c = mapContext(getPost, (_ctx: Outer): { database: string } => {
+      throw new Error('No database')
+    })
+
+    assertEquals(
+      await c(1, { db: 'main', user: 'john', flags: [] }),
+      failure([new Error('No database')]),
+    )
+  })
+
+  it('should not compose when the mapper returns an incompatible context', () => {
+    const getPost = (id: number, ctx: { database: string }) =>
+      `${ctx.database}:${id}`
+
+    // @ts-expect-error: the mapper output is not the context of getPost
+    mapContext(getPost, (ctx: Outer) => ({ db: ctx.db }))
+  })
+})
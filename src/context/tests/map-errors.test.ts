@@ -0,0 +1,34 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { failure, success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+
+class AccessError extends Error {
+  override readonly name = 'AccessError'
+}
+
+describe('mapErrors', () => {
+  it('should call the mapper with the errors, the input and the context', async () => {
+    const getPost = (id: number, ctx: { user: string }) => {
+      if (ctx.user !== 'admin') throw new Error('Forbidden')
+      return id
+    }
+
+    const c = withContext.mapErrors(
+      getPost,
+      (errors, id, ctx) =>
+        errors.map((e) => new AccessError(`${ctx.user}/${id}: ${e.message}`)),
+    )
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { user: string }) => number>
+      >
+    >
+
+    assertEquals(
+      await c(1, { user: 'john' }),
+      failure([new AccessError('john/1: Forbidden')]),
+    )
+    assertEquals(await c(1, { user: 'admin' }), success(1))
+  })
+})
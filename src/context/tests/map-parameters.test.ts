@@ -0,0 +1,31 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { success, withContext } from '../../index.ts'
+import type { Composable } from '../../index.ts'
+
+describe('mapParameters', () => {
+  it('should map the input and forward the context', async () => {
+    const getPost = ({ id }: { id: number }, ctx: { user: string }) =>
+      `${ctx.user}:${id}`
+
+    const c = withContext.mapParameters(
+      getPost,
+      (id: number, ctx) => ({ id: id + ctx.user.length }),
+    )
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(input: number, ctx: { user: string }) => string>
+      >
+    >
+
+    assertEquals(await c(1, { user: 'john' }), success('john:5'))
+  })
+
+  it('should not compose when the mapper returns an incompatible input', () => {
+    const getPost = ({ id }: { id: number }, ctx: { user: string }) =>
+      `${ctx.user}:${id}`
+
+    // @ts-expect-error: the mapper output is not the input of getPost
+    withContext.mapParameters(getPost, (id: number) => ({ id: String(id) }))
+  })
+})
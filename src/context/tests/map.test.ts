@@ -0,0 +1,49 @@
+import { assertEquals, describe, it, z } from './prelude.ts'
+import { applySchema, failure, success, withContext } from '../../index.ts'
+import type { Composable, ComposableWithSchema } from '../../index.ts'
+
+describe('map', () => {
+  it('should call the mapper with the data, the input and the context', async () => {
+    const getUser = (id: number, ctx: { tenant: string }) => ({
+      id,
+      tenant: ctx.tenant,
+    })
+
+    const c = withContext.map(
+      getUser,
+      (user, id, ctx) => `${ctx.tenant}/${user.id}/${id}`,
+    )
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { tenant: string }) => string>
+      >
+    >
+
+    assertEquals(await c(1, { tenant: 'acme' }), success('acme/1/1'))
+  })
+
+  it('should keep the signature of a composable with schema', async () => {
+    const a = applySchema(z.number(), z.object({ n: z.number() }))(
+      (input, { n }) => input + n,
+    )
+
+    const c = withContext.map(a, (result) => String(result))
+    type _R = Expect<Equal<typeof c, ComposableWithSchema<string>>>
+
+    assertEquals(await c(1, { n: 2 }), success('3'))
+  })
+
+  it('should not call the mapper when the function fails', async () => {
+    const a = (_id: number, _ctx: { tenant: string }) => {
+      throw new Error('failed')
+    }
+
+    const c = withContext.map(a, () => 'never')
+
+    assertEquals(
+      await c(1, { tenant: 'acme' }),
+      failure([new Error('failed')]),
+    )
+  })
+})
@@ -0,0 +1,91 @@
+import { assertEquals, describe, it, z } from './prelude.ts'
+import {
+  applySchema,
+  ContextError,
+  failure,
+  provideContext,
+  success,
+  withContext,
+} from '../../index.ts'
+import type { Composable } from '../../index.ts'
+
+describe('provideContext', () => {
+  it('should bind the context to the function', async () => {
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = provideContext(getPost, { user: 'john' })
+    type _R = Expect<Equal<typeof c, Composable<(id: number) => string>>>
+
+    assertEquals(await c(1), success('john:1'))
+  })
+
+  it('should resolve the context factory only once', async () => {
+    let calls = 0
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = provideContext(getPost, async () => {
+      calls++
+      return { user: await Promise.resolve('john') }
+    })
+
+    assertEquals(calls, 0)
+    assertEquals(await c(1), success('john:1'))
+    assertEquals(await c(2), success('john:2'))
+    assertEquals(calls, 1)
+  })
+
+  it('should bind the context to a composition with context', async () => {
+    const a = (id: number, ctx: { user: string }) => id + ctx.user.length
+    const b = (n: number, ctx: { user: string }) => `${ctx.user}:${n}`
+
+    const c = provideContext(withContext.pipe(a, b), { user: 'john' })
+    type _R = Expect<Equal<typeof c, Composable<(id: number) => string>>>
+
+    assertEquals(await c(1), success('john:5'))
+  })
+
+  it('should fail with the errors of the context schema', async () => {
+    const ctxSchema = z.object({ user: z.string() })
+    const getPost = applySchema(z.number(), ctxSchema)(
+      (id, { user }) => `${user}:${id}`,
+    )
+
+    const c = provideContext(getPost, { user: 1 }, { schema: ctxSchema })
+    const result = await c(1)
+
+    assertEquals(result.success, false)
+    assertEquals(
+      !result.success && result.errors.map((e) => [
+        e.constructor,
+        (e as ContextError).path,
+      ]),
+      [[ContextError, ['user']]],
+    )
+  })
+
+  it('should fail when the context factory fails', async () => {
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = provideContext(getPost, () => {
+      throw new Error('No session')
+    })
+
+    assertEquals(await c(1), failure([new Error('No session')]))
+  })
+
+  it('should resolve the context factory again after a failure', async () => {
+    let calls = 0
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = provideContext(getPost, () => {
+      calls++
+      if (calls === 1) throw new Error('No session')
+      return { user: 'john' }
+    })
+
+    assertEquals(await c(1), failure([new Error('No session')]))
+    assertEquals(await c(2), success('john:2'))
+    assertEquals(await c(3), success('john:3'))
+    assertEquals(calls, 2)
+  })
+})
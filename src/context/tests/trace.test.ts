@@ -0,0 +1,36 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import { failure, success, withContext } from '../../index.ts'
+import type { Composable, Result } from '../../index.ts'
+
+describe('trace', () => {
+  it('should call the trace function with the result, the input and the context', async () => {
+    const traced: Array<[Result<unknown>, unknown, unknown]> = []
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = withContext.trace((result, input, ctx) => {
+      traced.push([result, input, ctx])
+    })(getPost)
+    type _R = Expect<
+      Equal<
+        typeof c,
+        Composable<(id: number, ctx: { user: string }) => string>
+      >
+    >
+
+    assertEquals(await c(1, { user: 'john' }), success('john:1'))
+    assertEquals(traced, [[success('john:1'), 1, { user: 'john' }]])
+  })
+
+  it('should fail when the trace function fails', async () => {
+    const getPost = (id: number, ctx: { user: string }) => `${ctx.user}:${id}`
+
+    const c = withContext.trace(() => {
+      throw new Error('trace failed')
+    })(getPost)
+
+    assertEquals(
+      await c(1, { user: 'john' }),
+      failure([new Error('trace failed')]),
+    )
+  })
+})
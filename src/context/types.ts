@@ -1,9 +1,13 @@
+import type { ContextError } from '../errors.ts'
 import type { Internal } from '../internal/types.ts'
 import type {
+  CanComposeInParallel,
   Composable,
   PipeReturn as BasePipeReturn,
+  RecordToTuple,
   SequenceReturn as BaseSequenceReturn,
   UnpackData,
+  UnpackErrors,
 } from '../types.ts'
 
 type CommonContext<
@@ -47,6 +51,33 @@ type PipeReturn<Fns extends Composable[]> = BasePipeReturn<
   >
   : CanComposeInSequence<Fns>
 
+type AllReturn<Fns extends Composable[]> = CommonContext<Fns> extends
+  Internal.IncompatibleArguments ? CommonContext<Fns>
+  : CanComposeInParallel<Fns> extends [
+    Composable<(...args: infer P) => any>,
+    ...any,
+  ] ? Composable<
+      (
+        ...args: SetContext<P, CommonContext<Fns>>
+      ) => { [K in keyof Fns]: UnpackData<Fns[K]> },
+      Internal.UnionErrors<Fns>
+    >
+  : CanComposeInParallel<Fns>
+
+type CollectReturn<Fns extends Record<string, Composable>> = CommonContext<
+  RecordToTuple<Fns>
+> extends Internal.IncompatibleArguments ? CommonContext<RecordToTuple<Fns>>
+  : CanComposeInParallel<RecordToTuple<Fns>> extends [
+    Composable<(...args: infer P) => any>,
+    ...any,
+  ] ? Composable<
+      (
+        ...args: SetContext<P, CommonContext<RecordToTuple<Fns>>>
+      ) => { [K in keyof Fns]: UnpackData<Fns[K]> },
+      Internal.UnionErrors<Fns>
+    >
+  : CanComposeInParallel<RecordToTuple<Fns>>
+
 type CanComposeInSequence<
   Fns extends any[],
   Arguments extends any[] = [],
@@ -91,6 +122,153 @@ type SetContext<
     ? [firstOptional?, ...Ctx]
   : never
 
+type ContextParameters<Fn extends Composable> = SetContext<
+  Parameters<Fn>,
+  GetContext<Parameters<Fn>>
+>
+
+type InputOf<Fn extends Composable> = Parameters<Fn>[0]
+
+type ContextOf<Fn extends Composable> = GetContext<Parameters<Fn>>[0]
+
+type MapReturn<Fn extends Composable, O> = Composable<
+  (...args: ContextParameters<Fn>) => O
+>
+
+type MapErrorsReturn<Fn extends Composable, M extends Composable> = Composable<
+  (...args: ContextParameters<Fn>) => UnpackData<Fn>,
+  Internal.MappedErrors<M>
+>
+
+type CatchFailureReturn<Fn extends Composable, C extends Composable> =
+  Composable<
+    (
+      ...args: ContextParameters<Fn>
+    ) => UnpackData<C> extends never[]
+      ? UnpackData<Fn> extends any[] ? UnpackData<Fn>
+      : UnpackData<C> | UnpackData<Fn>
+      : UnpackData<C> | UnpackData<Fn>,
+    UnpackErrors<C>
+  >
+
+type TraceReturn<Fn extends Composable> = Composable<
+  (...args: ContextParameters<Fn>) => UnpackData<Fn>,
+  UnpackErrors<Fn>
+>
+
+type ProvideContextReturn<Fn extends Composable> = Composable<
+  (...args: SetContext<Parameters<Fn>, []>) => UnpackData<Fn>,
+  Internal.NormalizeErrors<UnpackErrors<Fn> | ContextError>
+>
+
+type MapContextReturn<Fn extends Composable, Ctx> = Composable<
+  (...args: SetContext<Parameters<Fn>, [Ctx]>) => UnpackData<Fn>,
+  UnpackErrors<Fn>
+>
+
+type ExtendContextReturn<Fn extends Composable, Ctx, Extra> = [
+  Ctx & Extra,
+] extends [ContextOf<Fn>] ? MapContextReturn<Fn, Ctx>
+  : Internal.FailToCompose<Ctx & Extra, ContextOf<Fn>>
+
+type MapParametersReturn<
+  Fn extends Composable,
+  NewInput,
+  O extends InputOf<Fn>,
+> = Composable<
+  (
+    input: NewInput,
+    ...context: GetContext<Parameters<Fn>>
+  ) => Internal.IsNever<O> extends true ? never : UnpackData<Fn>,
+  UnpackErrors<Fn>
+>
+
+/**
+ * When a service is created: once for the whole container or once for every scope.
+ */
+type ServiceLifetime = 'singleton' | 'request'
+
+/**
+ * The definition of a service registered in a container.
+ * A `'singleton'` is shared by every scope, so it doesn't receive the request of any of them.
+ */
+type ServiceDefinition<T = unknown, R = any> =
+  | {
+    lifetime: 'singleton'
+    /**
+     * Creates the service once for the whole container.
+     */
+    create: () => T | Promise<T>
+  }
+  | {
+    /**
+     * Defaults to `'request'`, creating the service once for every scope.
+     */
+    lifetime?: 'request'
+    /**
+     * Creates the service. It receives the request of the scope.
+     */
+    create: (request: R) => T | Promise<T>
+  }
+
+/**
+ * The services created by a record of service definitions.
+ */
+type ServicesOf<Defs extends Record<string, ServiceDefinition>> = {
+  [K in keyof Defs]: Awaited<ReturnType<Defs[K]['create']>>
+}
+
+/**
+ * The request expected by every `'request'` service definition of a container.
+ */
+type ScopeRequest<Defs extends Record<string, ServiceDefinition>> =
+  Internal.UnionToIntersection<
+    {
+      [K in keyof Defs]: Defs[K] extends { lifetime: 'singleton' } ? never
+        : Parameters<Defs[K]['create']> extends [infer R, ...any] ? R
+        : never
+    }[keyof Defs]
+  >
+
+type ProvideServicesReturn<Fn extends Composable, Services> = [
+  Services,
+] extends [ContextOf<Fn>] ? ProvideContextReturn<Fn>
+  : Internal.FailToCompose<Services, ContextOf<Fn>>
+
+/**
+ * The services of a container for a single request.
+ */
+type Scope<Services extends Record<string, unknown>> = {
+  /**
+   * Resolves the given services, creating the ones that were not created yet.
+   */
+  resolve: <K extends keyof Services & string>(
+    ...keys: K[]
+  ) => Promise<Pick<Services, K>>
+  /**
+   * Binds the given services as the context of a context-aware function, resolving them on its first call.
+   */
+  provide: <Fn extends Function, K extends keyof Services & string>(
+    fn: Fn,
+    ...keys: K[]
+  ) => Fn extends Internal.AnyFn
+    ? ProvideServicesReturn<Composable<Fn>, Pick<Services, K>>
+    : never
+}
+
+/**
+ * A container of services, which are resolved through scopes.
+ */
+type Container<Defs extends Record<string, ServiceDefinition>> = {
+  /**
+   * Creates a scope for the given request. The given overrides - e.g. fakes in tests - are used instead of creating the services.
+   */
+  createScope: (
+    request: ScopeRequest<Defs>,
+    overrides?: Partial<ServicesOf<Defs>>,
+  ) => Scope<ServicesOf<Defs>>
+}
+
 type BranchContext<
   SourceComposable extends Composable,
   Resolver extends (
@@ -131,10 +309,30 @@ type BranchReturn<
   : CanComposeInSequence<[SourceComposable, Composable<Resolver>]>
 
 export type {
+  AllReturn,
   BranchReturn,
+  CatchFailureReturn,
+  CollectReturn,
   CommonContext,
+  Container,
+  ContextOf,
+  ContextParameters,
+  ExtendContextReturn,
   GetContext,
+  InputOf,
+  MapContextReturn,
+  MapErrorsReturn,
+  MapParametersReturn,
+  MapReturn,
   PipeReturn,
+  ProvideContextReturn,
+  ProvideServicesReturn,
+  Scope,
+  ScopeRequest,
   SequenceReturn,
+  ServiceDefinition,
+  ServiceLifetime,
+  ServicesOf,
   SetContext,
+  TraceReturn,
 }
@@ -0,0 +1,210 @@
+import { failure } from './constructors.ts'
+import { deserializeError, serializeErrorJson } from './serializer.ts'
+import type {
+  DataTypeRegistry,
+  EncodedData,
+  EncodedResult,
+  ErrorRegistry,
+  JsonSerializeOptions,
+  JsonValue,
+  Result,
+} from './types.ts'
+
+type Tagged = { $type: string; value?: JsonValue }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function encodeObject(
+  obj: Record<string, unknown>,
+  types: DataTypeRegistry,
+): Record<string, JsonValue> {
+  const json: Record<string, JsonValue> = {}
+  for (const [key, item] of Object.entries(obj)) {
+    if (typeof item === 'function' || typeof item === 'symbol') continue
+    json[key] = encodeValue(item, types)
+  }
+  return json
+}
+
+function encodeValue(value: unknown, types: DataTypeRegistry): JsonValue {
+  for (const [name, type] of Object.entries(types)) {
+    if (type.is(value)) {
+      return { $type: name, value: encodeValue(type.encode(value), types) }
+    }
+  }
+  if (value === undefined) return { $type: 'undefined' }
+  if (value === null) return null
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value
+    case 'number':
+      return Number.isFinite(value)
+        ? value
+        : { $type: 'Number', value: String(value) }
+    case 'bigint':
+      return { $type: 'BigInt', value: value.toString() }
+    case 'function':
+    case 'symbol':
+      return null
+  }
+
+  if (value instanceof Date) {
+    const time = value.getTime()
+    return {
+      $type: 'Date',
+      value: Number.isNaN(time) ? null : value.toISOString(),
+    }
+  }
+  if (value instanceof Map) {
+    return {
+      $type: 'Map',
+      value: [...value].map(([k, v]) => [
+        encodeValue(k, types),
+        encodeValue(v, types),
+      ]),
+    }
+  }
+  if (value instanceof Set) {
+    return {
+      $type: 'Set',
+      value: [...value].map((item) => encodeValue(item, types)),
+    }
+  }
+  if (Array.isArray(value)) return value.map((item) => encodeValue(item, types))
+
+  const obj = value as Record<string, unknown>
+  const json = encodeObject(obj, types)
+  return '$type' in obj ? { $type: 'Object', value: json } : json
+}
+
+function decodeObject(
+  json: Record<string, JsonValue>,
+  types: DataTypeRegistry,
+): Record<string, unknown> {
+  const obj: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(json)) {
+    obj[key] = decodeValue(item, types)
+  }
+  return obj
+}
+
+function decodeTagged({ $type, value }: Tagged, types: DataTypeRegistry) {
+  if (Object.prototype.hasOwnProperty.call(types, $type)) {
+    return types[$type].decode(decodeValue(value ?? null, types))
+  }
+  switch ($type) {
+    case 'undefined':
+      return undefined
+    case 'Number':
+      return Number(value)
+    case 'BigInt':
+      return BigInt(value as string)
+    case 'Date':
+      return new Date(typeof value === 'string' ? value : NaN)
+    case 'Map':
+      return new Map(
+        (value as [JsonValue, JsonValue][]).map(([k, v]) => [
+          decodeValue(k, types),
+          decodeValue(v, types),
+        ]),
+      )
+    case 'Set':
+      return new Set(
+        (value as JsonValue[]).map((item) => decodeValue(item, types)),
+      )
+    case 'Object':
+      return decodeObject(value as Record<string, JsonValue>, types)
+  }
+  throw new Error(`Unknown encoded type: ${$type}`)
+}
+
+function decodeValue(json: JsonValue, types: DataTypeRegistry): unknown {
+  if (Array.isArray(json)) return json.map((item) => decodeValue(item, types))
+  if (!isPlainObject(json)) return json
+  if (typeof json.$type === 'string') return decodeTagged(json as Tagged, types)
+
+  return decodeObject(json, types)
+}
+
+/**
+ * It receives any data and returns a JSON value where the values JSON can't represent - such as `Date`, `Map`, `Set`, `BigInt` and `undefined` - are tagged so they can be revived by `decodeData`.
+ * @param data the data to be encoded
+ * @param types the custom types to be tagged, by name
+ * @example
+ * ```ts
+ * const json = JSON.stringify(encodeData({ createdAt: new Date() }))
+ * ```
+ */
+function encodeData<T>(data: T, types: DataTypeRegistry = {}): EncodedData<T> {
+  return encodeValue(data, types) as EncodedData<T>
+}
+
+/**
+ * It revives the data encoded by `encodeData`.
+ * @param json the encoded data
+ * @param types the custom types to be revived, by name
+ * @example
+ * ```ts
+ * const data = decodeData(JSON.parse(json))
+ * //    ^? { createdAt: Date }
+ * ```
+ */
+function decodeData<T>(json: EncodedData<T>, types: DataTypeRegistry = {}): T {
+  return decodeValue(json, types) as T
+}
+
+/**
+ * It receives a Result and returns an EncodedResult, where the data is encoded with `encodeData` and the errors are serialized with `serializeErrorJson`.
+ * @param result the result to be encoded
+ * @param options the custom data types to be encoded and the options of `serializeErrorJson`
+ * @example
+ * ```ts
+ * export async function loader({ params }: LoaderFunctionArgs) {
+ *   return encodeResult(await getOrder(params.id), {
+ *     types: { Money: moneyType },
+ *   })
+ * }
+ * ```
+ */
+function encodeResult<T>(
+  result: Result<T>,
+  options: JsonSerializeOptions & { types?: DataTypeRegistry } = {},
+): EncodedResult<T> {
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.errors.map((error) => serializeErrorJson(error, options)),
+    }
+  }
+  return { ...result, data: encodeData(result.data, options.types) }
+}
+
+/**
+ * It revives a Result encoded by `encodeResult`, even after it went through `JSON.stringify`.
+ * The data is decoded with `decodeData` and the errors are rebuilt with `deserializeError`.
+ * @param result the encoded result
+ * @param options the custom data types and error classes to be revived
+ * @example
+ * ```ts
+ * const result = decodeResult(useLoaderData<typeof loader>(), {
+ *   types: { Money: moneyType },
+ * })
+ * //    ^? Result<Order>
+ * ```
+ */
+function decodeResult<T>(
+  result: EncodedResult<T>,
+  options: { types?: DataTypeRegistry; errors?: ErrorRegistry } = {},
+): Result<T> {
+  if (!result.success) {
+    return failure(
+      result.errors.map((error) => deserializeError(error, options.errors)),
+    )
+  }
+  return { ...result, data: decodeData(result.data, options.types) }
+}
+
+export { decodeData, decodeResult, encodeData, encodeResult }
@@ -1,3 +1,5 @@
+import type { FieldErrorMap, NestedFieldErrors } from './types.ts'
+
 /**
  * A custom error class for input errors.
  *
@@ -62,10 +64,51 @@ class ContextError extends Error {
   }
 }
 
+/**
+ * A custom error class for composables that took longer than allowed to finish.
+ *
+ * @example
+ * const fn = () => {
+ *  throw new TimeoutError('Took too long')
+ * }
+ */
+class TimeoutError extends Error {
+  /**
+   * Name of the error, typed as a literal to tell it apart from other errors.
+   */
+  override name: 'TimeoutError'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * A custom error class for composables that were aborted through an `AbortSignal`.
+ *
+ * @example
+ * const fn = () => {
+ *  throw new AbortError('User navigated away')
+ * }
+ */
+class AbortError extends Error {
+  /**
+   * Name of the error, typed as a literal to tell it apart from other errors.
+   */
+  override name: 'AbortError'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'AbortError'
+  }
+}
+
 /**
  * A list of errors
  *
- * Useful to propagate error from mutiple composables in parallel execution
+ * Useful to propagate error from mutiple composables in parallel execution.
+ * The `cause` given in the options is passed on to the errors of the list when a composable unwraps it.
  */
 class ErrorList extends Error {
   /**
@@ -73,8 +116,8 @@ class ErrorList extends Error {
    */
   list: Error[]
 
-  constructor(errors: Error[]) {
-    super('ErrorList')
+  constructor(errors: Error[], options?: ErrorOptions) {
+    super('ErrorList', options)
     this.name = 'ErrorList'
     this.list = errors
   }
@@ -100,12 +143,126 @@ function isContextError(e: { name: string; message: string }): boolean {
   return e.name === 'EnvironmentError' || e.name === 'ContextError'
 }
 
+/**
+ * A function to check if an `Error` or a `SerializableError` is a TimeoutError
+ */
+function isTimeoutError(e: { name: string; message: string }): boolean {
+  return e.name === 'TimeoutError'
+}
+
+/**
+ * A function to check if an `Error` or a `SerializableError` is an AbortError
+ */
+function isAbortError(e: { name: string; message: string }): boolean {
+  return e.name === 'AbortError'
+}
+
+/**
+ * An error, or a serialized error, that may have a path.
+ */
+type ErrorWithPath = { name: string; message: string; path?: unknown[] }
+
+function pathKeys(error: ErrorWithPath): string[] {
+  if (!isInputError(error) || !Array.isArray(error.path)) return []
+
+  return error.path.map((segment) =>
+    String(
+      typeof segment === 'object' && segment !== null && 'key' in segment
+        ? segment.key
+        : segment,
+    )
+  )
+}
+
+function ownValue<T>(obj: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(obj, key) ? obj[key] : undefined
+}
+
+/**
+ * Sets a property without ever touching the prototype, even for keys such as `__proto__`.
+ */
+function setOwn<T>(obj: Record<string, T>, key: string, value: T) {
+  Object.defineProperty(obj, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  })
+}
+
+/**
+ * A function to group the messages of `InputError`s by their dot-separated paths. The messages of any other error, or of an `InputError` without a path, are grouped in `_global`.
+ * It works with both `Error`s and `SerializableError`s.
+ *
+ * @example
+ * const fieldErrors = errorsToFieldMap(result.errors)
+ * // { 'user.name': ['Required'], _global: ['Something went wrong'] }
+ */
+function errorsToFieldMap(errors: ErrorWithPath[]): FieldErrorMap {
+  const fieldMap: FieldErrorMap = { _global: [] }
+  for (const error of errors) {
+    const keys = pathKeys(error)
+    const field = keys.length ? keys.join('.') : '_global'
+    setOwn(fieldMap, field, [
+      ...(ownValue(fieldMap, field) ?? []),
+      error.message,
+    ])
+  }
+  return fieldMap
+}
+
+/**
+ * A function to group the messages of `InputError`s in an object shaped like the input. The messages of any other error, or of an `InputError` without a path, are grouped in `_global`.
+ * When a path has both its own messages and nested fields, its own messages are kept in `_errors`.
+ * It works with both `Error`s and `SerializableError`s.
+ *
+ * @example
+ * const fieldErrors = errorsToNestedFieldMap(result.errors)
+ * // { user: { name: ['Required'] }, _global: ['Something went wrong'] }
+ */
+function errorsToNestedFieldMap(errors: ErrorWithPath[]): NestedFieldErrors {
+  const tree: NestedFieldErrors = { _global: [] }
+  for (const error of errors) {
+    const keys = pathKeys(error)
+    if (!keys.length) {
+      ;(tree._global as string[]).push(error.message)
+      continue
+    }
+
+    let node = tree
+    for (const key of keys.slice(0, -1)) {
+      const child = ownValue(node, key)
+      if (Array.isArray(child)) setOwn(node, key, { _errors: child })
+      else if (!child) setOwn(node, key, {})
+      node = node[key] as NestedFieldErrors
+    }
+
+    const leaf = keys[keys.length - 1]
+    const current = ownValue(node, leaf)
+    if (current && !Array.isArray(current)) {
+      setOwn(current, '_errors', [
+        ...((ownValue(current, '_errors') as string[]) ?? []),
+        error.message,
+      ])
+    } else {
+      setOwn(node, leaf, [...(current ?? []), error.message])
+    }
+  }
+  return tree
+}
+
 export {
+  AbortError,
   ContextError,
   EnvironmentError,
   ErrorList,
+  errorsToFieldMap,
+  errorsToNestedFieldMap,
   InputError,
+  isAbortError,
   isContextError,
   isEnvironmentError,
   isInputError,
+  isTimeoutError,
+  TimeoutError,
 }
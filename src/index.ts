@@ -1,44 +1,99 @@
 export {
+  abortable,
   applySchema,
   composable,
   failure,
   fromSuccess,
+  gen,
+  step,
   success,
+  typedComposable,
   withSchema,
 } from './constructors.ts'
 export {
   all,
+  allSettled,
+  allWith,
+  any,
   branch,
   catchFailure,
   collect,
+  collectSettled,
+  collectWith,
   map,
   mapErrors,
   mapParameters,
   mergeObjects,
   pipe,
+  race,
+  retry,
   sequence,
+  timeout,
   trace,
+  traverse,
+  withSignal,
 } from './combinators.ts'
 export {
   inputFromForm,
   inputFromFormData,
+  inputFromFormWithSchema,
+  inputFromRequest,
   inputFromSearch,
+  inputFromSearchWithSchema,
   inputFromUrl,
+  toFormData,
+  toSearchParams,
 } from './input-resolvers.ts'
 export type {
   FormDataLike,
+  FormDataOptions,
+  FormDataRecord,
+  InputWithSchemaOptions,
+  JSONSchemaLike,
+  ParseOptions,
   QueryStringRecord,
+  RequestInputOptions,
   RequestLike,
 } from './input-resolvers.ts'
-export { serialize, serializeError } from './serializer.ts'
 export {
+  flatMapResult,
+  fold,
+  isFailure,
+  isSuccess,
+  mapResult,
+  match,
+  unwrapOr,
+  zipResults,
+} from './result.ts'
+export type { ResultLike, ZipResultsReturn } from './result.ts'
+export {
+  decodeData,
+  decodeResult,
+  encodeData,
+  encodeResult,
+} from './encoder.ts'
+export {
+  deserialize,
+  deserializeError,
+  serialize,
+  serializeError,
+  serializeErrorJson,
+  serializeJson,
+} from './serializer.ts'
+export {
+  AbortError,
   ContextError,
   EnvironmentError,
   ErrorList,
+  errorsToFieldMap,
+  errorsToNestedFieldMap,
   InputError,
+  isAbortError,
   isContextError,
   isEnvironmentError,
   isInputError,
+  isTimeoutError,
+  TimeoutError,
 } from './errors.ts'
 export type {
   ApplySchemaReturn,
@@ -47,22 +102,53 @@ export type {
   CanComposeInSequence,
   Composable,
   ComposableWithSchema,
+  DataType,
+  DataTypeRegistry,
+  DeserializableError,
+  EncodedData,
+  EncodedResult,
+  ErrorRegistry,
   FailToCompose,
   Failure,
+  FieldErrorMap,
+  GenReturn,
   IncompatibleArguments,
+  Jsonify,
+  JsonSerializableError,
+  JsonSerializableResult,
+  JsonSerializeOptions,
+  JsonValue,
   MapParametersReturn,
   MergeObjects,
+  NestedFieldErrors,
+  ParallelOptions,
   PipeReturn,
   Result,
+  RetryPolicy,
   SequenceReturn,
   SerializableError,
   SerializableResult,
   Success,
+  TraverseReturn,
   UnpackAll,
   UnpackData,
+  UnpackErrors,
 } from './types.ts'
 
 // FUNCTIONS WITH CONTEXT
 export { environment } from './context/environment.ts'
 export { context } from './context/context.ts'
 export * as withContext from './context/index.ts'
+export {
+  extendContext,
+  mapContext,
+  provideContext,
+} from './context/combinators.ts'
+export { createContainer } from './context/container.ts'
+export type {
+  Container,
+  Scope,
+  ServiceDefinition,
+  ServiceLifetime,
+  ServicesOf,
+} from './context/types.ts'
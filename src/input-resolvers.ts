@@ -1,3 +1,6 @@
+import { ErrorList, InputError } from './errors.ts'
+import type { StandardSchemaV1 as StandardSchema } from '@standard-schema/spec'
+
 /**
  * The return type of all the input resolvers.
  */
@@ -7,10 +10,58 @@ type QueryStringRecord = {
     | string
     | string[]
     | [string, string][]
+    | string[][]
     | QueryStringRecord
     | QueryStringRecord[]
 }
 
+/**
+ * The return type of the input resolvers that read a FormData.
+ * It may contain the File and Blob values of the FormData.
+ */
+type FormDataRecord = {
+  [key: string]:
+    | undefined
+    | string
+    | Blob
+    | Array<string | Blob>
+    | Array<string | Blob>[]
+    | FormDataRecord
+    | FormDataRecord[]
+}
+
+/**
+ * The limits of the input resolvers that parse the keys of a query string or a FormData.
+ */
+type ParseOptions = {
+  /**
+   * The maximum number of nested keys. Defaults to 10.
+   */
+  maxDepth?: number
+  /**
+   * The maximum index of a list. Defaults to 1000.
+   */
+  maxArrayIndex?: number
+  /**
+   * The maximum number of parameters. Defaults to 1000.
+   */
+  maxParameters?: number
+}
+
+/**
+ * The options of the input resolvers that read a FormData.
+ */
+type FormDataOptions = ParseOptions & {
+  /**
+   * The maximum size of each file, in bytes.
+   */
+  maxFileSize?: number
+  /**
+   * The maximum number of files.
+   */
+  maxFiles?: number
+}
+
 /**
  * A partial representation of a FormData object.
  */
@@ -21,14 +72,60 @@ type FormDataLike = Iterable<readonly [PropertyKey, unknown]>
  */
 type RequestLike = {
   url: string
-  clone: () => { formData: () => Promise<FormDataLike> }
+  method?: string
+  headers?: { get: (name: string) => string | null }
+  clone: () => {
+    formData: () => Promise<FormDataLike>
+    json?: () => Promise<unknown>
+  }
+}
+
+/**
+ * The options of the inputFromRequest resolver.
+ */
+type RequestInputOptions = FormDataOptions & {
+  /**
+   * Which values are kept when a key is both in the URL and in the body. Defaults to `'body'`.
+   */
+  precedence?: 'body' | 'url'
+}
+
+/**
+ * The subset of a JSON Schema used to coerce the parsed input.
+ */
+type JSONSchemaLike = {
+  type?: string | string[]
+  format?: string
+  properties?: Record<string, JSONSchemaLike>
+  additionalProperties?: JSONSchemaLike | boolean
+  items?: JSONSchemaLike | JSONSchemaLike[]
+  prefixItems?: JSONSchemaLike[]
+  anyOf?: JSONSchemaLike[]
+  oneOf?: JSONSchemaLike[]
+  allOf?: JSONSchemaLike[]
+  $ref?: string
+  $defs?: Record<string, JSONSchemaLike>
+  definitions?: Record<string, JSONSchemaLike>
+}
+
+/**
+ * The options of the input resolvers with schema.
+ */
+type InputWithSchemaOptions = ParseOptions & {
+  /**
+   * The JSON Schema describing the input of the schema.
+   * It is only needed when the schema vendor doesn't expose it through the Standard JSON Schema interface.
+   */
+  jsonSchema?: JSONSchemaLike
 }
 
 /**
  * Parses the given URLSearchParams into an object.
  *
  * @param queryString the URLSearchParams to parse
+ * @param options the limits of the keys
  * @returns the parsed object
+ * @throws an ErrorList with an InputError for every key beyond the limits
  *
  * @example
  *
@@ -37,21 +134,116 @@ type RequestLike = {
  * //    ^? { a: '1', b: '2' }
  * ```
  */
-function inputFromSearch(queryString: URLSearchParams): QueryStringRecord {
+function inputFromSearch(
+  queryString: URLSearchParams,
+  options: ParseOptions = {},
+): QueryStringRecord {
   const pairs: [string, string][] = []
   queryString.forEach((value, key) => pairs.push([key, value]))
 
+  return parsePairs(pairs, options) as QueryStringRecord
+}
+
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob
+}
+
+/**
+ * The keys that would reach the prototype of the parsed objects.
+ */
+const forbiddenKeys = ['__proto__', 'constructor', 'prototype']
+
+function ownValue(obj: unknown[] | Record<string, unknown>, key: string) {
+  return Object.prototype.hasOwnProperty.call(obj, key)
+    ? (obj as Record<string, unknown>)[key]
+    : undefined
+}
+
+/**
+ * Splits a key in bracket notation, such as `a[b][0]`, into its list of keys.
+ */
+function keysOf(key: string): string[] {
+  const compositeKey = key.match(/([^\[\]]*)(\[.*\].*)$/)
+  if (!compositeKey) return [key]
+
+  const [, rootKey, subKeys] = compositeKey
+  return [
+    rootKey,
+    ...subKeys.replace(/^\[/, '').replace(/\]$/, '').split(']['),
+  ]
+}
+
+/**
+ * Returns an InputError for every key beyond the limits.
+ */
+function parseLimitErrors(
+  pairs: [string, unknown][],
+  options: ParseOptions,
+): InputError[] {
+  const { maxDepth = 10, maxArrayIndex = 1000, maxParameters = 1000 } = options
+  if (pairs.length > maxParameters) {
+    return [
+      new InputError(
+        `Too many parameters, the maximum is ${maxParameters}`,
+        [],
+      ),
+    ]
+  }
+
+  return pairs.flatMap(([key]) => {
+    const keys = keysOf(key)
+    const forbidden = keys.findIndex((k) => forbiddenKeys.includes(k))
+    if (forbidden !== -1) {
+      return [
+        new InputError(
+          `Forbidden key: ${keys[forbidden]}`,
+          keys.slice(0, forbidden + 1),
+        ),
+      ]
+    }
+    if (keys.length - 1 > maxDepth) {
+      return [
+        new InputError(
+          `Key is nested deeper than ${maxDepth} levels`,
+          keys.slice(0, maxDepth + 2),
+        ),
+      ]
+    }
+    const index = keys.findIndex((k, i) =>
+      i > 0 && k !== '' && Number(k) > maxArrayIndex
+    )
+    if (index !== -1) {
+      return [
+        new InputError(
+          `Index is larger than ${maxArrayIndex}`,
+          keys.slice(0, index + 1),
+        ),
+      ]
+    }
+    return []
+  })
+}
+
+/**
+ * Parses the given key and value pairs into an object, following the bracket notation of the keys.
+ * @throws an ErrorList with an InputError for every key beyond the limits
+ */
+function parsePairs(
+  pairs: [string, string | Blob][],
+  options: ParseOptions,
+): FormDataRecord {
+  const errors = parseLimitErrors(pairs, options)
+  if (errors.length) throw new ErrorList(errors)
+
   return pairs
     .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
     .reduce((parsed, [key, value]) => {
-      const compositeKey = key.match(/([^\[\]]*)(\[.*\].*)$/)
-      if (compositeKey) {
-        const [, rootKey, subKeys] = compositeKey
-
+      const keys = keysOf(key)
+      if (keys.length > 1) {
         const placeValue = (
           current: unknown[] | Record<string, unknown>,
           keys: string[],
-          value: string,
+          value: string | Blob,
         ): void => {
           if (keys.length > 1) {
             // we still have at least 1 nested key
@@ -67,7 +259,7 @@ function inputFromSearch(queryString: URLSearchParams): QueryStringRecord {
               }
               placeValue(current[arrayKey] as typeof current, rest, value)
             } else {
-              if (!current[nextKey]) {
+              if (!ownValue(current, nextKey)) {
                 current[nextKey] = initialValueFromKeys(rest)
               }
               placeValue(current[nextKey] as typeof current, rest, value)
@@ -90,33 +282,71 @@ function inputFromSearch(queryString: URLSearchParams): QueryStringRecord {
           }
         }
 
-        const subKeysList = subKeys
-          .replace(/^\[/, '')
-          .replace(/\]$/, '')
-          .split('][')
-        placeValue(parsed, [rootKey, ...subKeysList], value)
+        placeValue(parsed, keys, value)
         return parsed
       } else {
         // no subkeys here, to its either a simple value or a list
-        const existing = parsed[key]
-        if (typeof existing === 'string') {
+        const existing = ownValue(parsed, key)
+        if (typeof existing === 'string' || isBlob(existing)) {
           parsed[key] = [existing, value]
         } else if (existing instanceof Array) {
-          const strings = existing as string[]
-          strings.push(value)
+          const values = existing as Array<string | Blob>
+          values.push(value)
         } else {
           parsed[key] = value
         }
         return parsed
       }
-    }, {} as QueryStringRecord)
+    }, {} as FormDataRecord)
+}
+
+/**
+ * Returns an InputError for every file of the parsed FormData that is beyond the limits.
+ */
+function fileLimitErrors(
+  value: unknown,
+  options: FormDataOptions,
+  path: string[] = [],
+  state = { files: 0 },
+): InputError[] {
+  if (isBlob(value)) {
+    const errors: InputError[] = []
+    state.files++
+    if (options.maxFiles !== undefined && state.files > options.maxFiles) {
+      errors.push(
+        new InputError(
+          `Too many files, the maximum is ${options.maxFiles}`,
+          path,
+        ),
+      )
+    }
+    if (
+      options.maxFileSize !== undefined && value.size > options.maxFileSize
+    ) {
+      errors.push(
+        new InputError(
+          `File is larger than ${options.maxFileSize} bytes`,
+          path,
+        ),
+      )
+    }
+    return errors
+  }
+  if (typeof value !== 'object' || value === null) return []
+
+  return Object.entries(value).flatMap(([key, item]) =>
+    fileLimitErrors(item, options, [...path, key], state)
+  )
 }
 
 /**
  * Parses the given FormData into an object.
+ * File and Blob values are kept in place.
  *
  * @param formData the FormData to parse
+ * @param options the limits of the keys and of the files
  * @returns the parsed object
+ * @throws an ErrorList with an InputError for every key or file beyond the limits
  *
  * @example
  *
@@ -128,15 +358,29 @@ function inputFromSearch(queryString: URLSearchParams): QueryStringRecord {
  * //    ^? { a: '1', b: '2' }
  * ```
  */
-function inputFromFormData(formData: FormDataLike): QueryStringRecord {
-  return inputFromSearch(new URLSearchParams(formData as URLSearchParams))
+function inputFromFormData(
+  formData: FormDataLike,
+  options: FormDataOptions = {},
+): FormDataRecord {
+  const pairs: [string, string | Blob][] = []
+  for (const [key, value] of formData) {
+    pairs.push([String(key), isBlob(value) ? value : String(value)])
+  }
+  const parsed = parsePairs(pairs, options)
+
+  const errors = fileLimitErrors(parsed, options)
+  if (errors.length) throw new ErrorList(errors)
+  return parsed
 }
 
 /**
  * Parses the given Request's formData into an object.
+ * File and Blob values are kept in place.
  *
  * @param request the Request to parse
+ * @param options the limits of the keys and of the files
  * @returns the parsed object
+ * @throws an ErrorList with an InputError for every key or file beyond the limits
  *
  * @example
  *
@@ -152,15 +396,20 @@ function inputFromFormData(formData: FormDataLike): QueryStringRecord {
  * //    ^? { a: '1', b: '2' }
  * ```
  */
-async function inputFromForm(request: RequestLike): Promise<QueryStringRecord> {
-  return inputFromFormData(await request.clone().formData())
+async function inputFromForm(
+  request: RequestLike,
+  options?: FormDataOptions,
+): Promise<FormDataRecord> {
+  return inputFromFormData(await request.clone().formData(), options)
 }
 
 /**
  * Parses the given Request URL's queryString into an object.
  *
  * @param request the Request to parse
+ * @param options the limits of the keys
  * @returns the parsed object
+ * @throws an ErrorList with an InputError for every key beyond the limits
  *
  * @example
  *
@@ -170,9 +419,390 @@ async function inputFromForm(request: RequestLike): Promise<QueryStringRecord> {
  * //    ^? { a: '1', b: '2' }
  * ```
  */
-function inputFromUrl(request: RequestLike): QueryStringRecord {
-  return inputFromSearch(new URL(request.url).searchParams)
+function inputFromUrl(
+  request: RequestLike,
+  options?: ParseOptions,
+): QueryStringRecord {
+  return inputFromSearch(new URL(request.url).searchParams, options)
+}
+
+/**
+ * Parses the body of the given Request according to its Content-Type.
+ */
+async function inputFromBody(
+  request: RequestLike,
+  options: FormDataOptions,
+): Promise<Record<string, unknown>> {
+  const method = request.method?.toUpperCase() ?? 'GET'
+  if (method === 'GET' || method === 'HEAD') return {}
+
+  const contentType = request.headers?.get('Content-Type')?.split(';')[0]
+    .trim().toLowerCase()
+  if (!contentType) return {}
+
+  if (contentType === 'application/json' || contentType.endsWith('+json')) {
+    let body: unknown
+    try {
+      body = await request.clone().json?.()
+    } catch {
+      throw new ErrorList([new InputError('Invalid JSON body', [])])
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ErrorList([new InputError('Expected a JSON object', [])])
+    }
+    return body as Record<string, unknown>
+  }
+  if (
+    contentType === 'application/x-www-form-urlencoded' ||
+    contentType === 'multipart/form-data'
+  ) {
+    return inputFromForm(request, options)
+  }
+  throw new ErrorList([
+    new InputError(`Unsupported Content-Type: ${contentType}`, []),
+  ])
+}
+
+/**
+ * Parses the given Request's URL and body into an object.
+ * The body is parsed according to the Content-Type of the request: JSON, url-encoded and multipart forms are supported.
+ * Requests without a body, such as GET requests, are parsed from the URL only.
+ *
+ * @param request the Request to parse
+ * @param options the precedence of the body over the URL and the limits of the keys and of the files
+ * @returns the URL values merged with the body values
+ * @throws an ErrorList with an InputError when the body can't be parsed or its Content-Type is not supported
+ *
+ * @example
+ *
+ * ```ts
+ * const request = new Request('https://example.com?id=1', {
+ *  method: 'POST',
+ *  headers: { 'Content-Type': 'application/json' },
+ *  body: JSON.stringify({ name: 'John' }),
+ * })
+ * const parsed = await inputFromRequest(request)
+ * //    ^? { id: '1', name: 'John' }
+ * ```
+ */
+async function inputFromRequest(
+  request: RequestLike,
+  options: RequestInputOptions = {},
+): Promise<Record<string, unknown>> {
+  const { precedence = 'body', ...formDataOptions } = options
+  const url = inputFromUrl(request, formDataOptions)
+  const body = await inputFromBody(request, formDataOptions)
+
+  return precedence === 'body' ? { ...url, ...body } : { ...body, ...url }
+}
+
+/**
+ * The JSON Schemas exposed by the schema vendors, computed once per schema.
+ */
+const vendorJsonSchemas = new WeakMap<
+  StandardSchema,
+  JSONSchemaLike | undefined
+>()
+
+/**
+ * Returns the JSON Schema of the input of a Standard Schema, when its vendor exposes it.
+ */
+function jsonSchemaOf(
+  schema: StandardSchema,
+  options: InputWithSchemaOptions,
+): JSONSchemaLike | undefined {
+  if (options.jsonSchema) return options.jsonSchema
+  if (!vendorJsonSchemas.has(schema)) {
+    vendorJsonSchemas.set(schema, vendorJsonSchemaOf(schema))
+  }
+  return vendorJsonSchemas.get(schema)
+}
+
+function vendorJsonSchemaOf(
+  schema: StandardSchema,
+): JSONSchemaLike | undefined {
+  const standard = schema['~standard'] as {
+    jsonSchema?: { input?: (options: { target: string }) => unknown }
+  }
+  if (typeof standard.jsonSchema?.input !== 'function') return undefined
+  try {
+    return standard.jsonSchema.input({
+      target: 'draft-2020-12',
+    }) as JSONSchemaLike
+  } catch {
+    // The vendor can't represent the schema - e.g. dates - so it is not coerced
+    return undefined
+  }
+}
+
+function resolveRef(node: JSONSchemaLike, root: JSONSchemaLike) {
+  if (!node.$ref?.startsWith('#/')) return node
+
+  let target: unknown = root
+  for (const segment of node.$ref.slice(2).split('/')) {
+    target = (target as Record<string, unknown> | undefined)?.[segment]
+  }
+  return (target as JSONSchemaLike | undefined) ?? {}
+}
+
+/**
+ * Returns every alternative of a JSON Schema node, looking into its unions.
+ */
+function branchesOf(
+  node: JSONSchemaLike,
+  root: JSONSchemaLike,
+): JSONSchemaLike[] {
+  const resolved = resolveRef(node, root)
+  const union = resolved.anyOf ?? resolved.oneOf ?? resolved.allOf
+  if (!union) return [resolved]
+
+  return union.flatMap((branch) => branchesOf(branch, root))
+}
+
+function typesOf(branches: JSONSchemaLike[]): string[] {
+  return branches.flatMap((branch) => branch.type ?? [])
+}
+
+/**
+ * Whether the JSON Schema node describes a date: a date format without a type, as emitted for values JSON Schema can't represent.
+ * A string with a date format is an ISO string, so it is kept as a string.
+ */
+function isDateBranch(branch: JSONSchemaLike): boolean {
+  return !branch.type &&
+    (branch.format === 'date-time' || branch.format === 'date')
+}
+
+function coerceString(value: string, branches: JSONSchemaLike[]): unknown {
+  if (branches.some(isDateBranch)) {
+    const date = new Date(value)
+    if (!Number.isNaN(date.getTime())) return date
+  }
+  const types = typesOf(branches)
+  if (types.includes('string')) return value
+  if (types.includes('number') || types.includes('integer')) {
+    if (value.trim() === '') return undefined
+    const number = Number(value)
+    if (!Number.isNaN(number)) return number
+  }
+  if (types.includes('boolean')) {
+    if (['true', 'on', '1'].includes(value)) return true
+    if (['false', 'off', '0'].includes(value)) return false
+  }
+  if (types.includes('null') && value === '') return null
+  return value
+}
+
+/**
+ * Coerces the given parsed value to the types expected by the JSON Schema.
+ */
+function coerce(
+  value: unknown,
+  node: JSONSchemaLike,
+  root: JSONSchemaLike,
+): unknown {
+  if (isBlob(value)) return value
+
+  const branches = branchesOf(node, root)
+  const types = typesOf(branches)
+  const arrayBranch = branches.find((branch) => branch.type === 'array')
+
+  if (typeof value === 'string') {
+    const coerced = coerceString(value, branches)
+    if (coerced !== value || types.includes('string') || !arrayBranch) {
+      return coerced
+    }
+    return coerce([value], arrayBranch, root)
+  }
+
+  if (Array.isArray(value)) {
+    if (!arrayBranch) return value
+    return value.map((item, index) => {
+      const itemNode = arrayBranch.prefixItems?.[index] ??
+        (Array.isArray(arrayBranch.items)
+          ? arrayBranch.items[index]
+          : arrayBranch.items)
+      return itemNode ? coerce(item, itemNode, root) : item
+    })
+  }
+
+  const objectBranch = branches.find(
+    (branch) => branch.type === 'object' || branch.properties,
+  )
+  if (typeof value === 'object' && value !== null && objectBranch) {
+    const properties = objectBranch.properties ?? {}
+    const additional = objectBranch.additionalProperties
+    const coerced: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      const itemNode = Object.prototype.hasOwnProperty.call(properties, key)
+        ? properties[key]
+        : typeof additional === 'object'
+        ? additional
+        : undefined
+      coerced[key] = itemNode ? coerce(item, itemNode, root) : item
+    }
+    return coerced
+  }
+  return value
+}
+
+function coerceInput(
+  input: QueryStringRecord | FormDataRecord,
+  schema: StandardSchema,
+  options: InputWithSchemaOptions,
+): Record<string, unknown> {
+  const jsonSchema = jsonSchemaOf(schema, options)
+  if (!jsonSchema) return input
+
+  return coerce(input, jsonSchema, jsonSchema) as Record<string, unknown>
+}
+
+/**
+ * Parses the given URLSearchParams into an object, coercing its values to the types expected by the schema.
+ * Numbers, booleans, dates and lists with a single item are coerced according to the JSON Schema of the schema input, so the schema doesn't need to coerce them.
+ *
+ * @param queryString the URLSearchParams to parse
+ * @param schema the schema the input will be validated with
+ * @param options the JSON Schema of the schema input, when its vendor doesn't expose it, and the limits of the keys
+ * @returns the parsed and coerced object
+ *
+ * @example
+ *
+ * ```ts
+ * const schema = z.object({ page: z.number(), tags: z.array(z.string()) })
+ * const parsed = inputFromSearchWithSchema(
+ *   new URLSearchParams('page=2&tags=a'),
+ *   schema,
+ * )
+ * //    ^? { page: 2, tags: ['a'] }
+ * ```
+ */
+function inputFromSearchWithSchema(
+  queryString: URLSearchParams,
+  schema: StandardSchema,
+  options: InputWithSchemaOptions = {},
+): Record<string, unknown> {
+  return coerceInput(inputFromSearch(queryString, options), schema, options)
+}
+
+/**
+ * Parses the given Request's formData into an object, coercing its values to the types expected by the schema.
+ * Numbers, booleans, dates and lists with a single item - such as a checkbox list with a single checked item - are coerced according to the JSON Schema of the schema input.
+ *
+ * @param request the Request to parse
+ * @param schema the schema the input will be validated with
+ * @param options the JSON Schema of the schema input, when its vendor doesn't expose it, and the limits of the keys and of the files
+ * @returns the parsed and coerced object
+ *
+ * @example
+ *
+ * ```ts
+ * const schema = z.object({ age: z.number(), roles: z.array(z.string()) })
+ * const parsed = await inputFromFormWithSchema(request, schema)
+ * //    ^? { age: 30, roles: ['admin'] }
+ * ```
+ */
+async function inputFromFormWithSchema(
+  request: RequestLike,
+  schema: StandardSchema,
+  options: InputWithSchemaOptions & FormDataOptions = {},
+): Promise<Record<string, unknown>> {
+  return coerceInput(await inputFromForm(request, options), schema, options)
+}
+
+/**
+ * Flattens the given value into the key and value pairs understood by `inputFromSearch`.
+ * Lists of values use empty brackets - `a[]` - so their order is kept, lists of objects and lists use their indexes - `a[0][b]`.
+ */
+function toPairs(
+  value: unknown,
+  key: string,
+  pairs: [string, string | Blob][],
+): [string, string | Blob][] {
+  if (value === undefined || value === null) return pairs
+  if (isBlob(value)) {
+    pairs.push([key, value])
+  } else if (value instanceof Date) {
+    pairs.push([key, value.toISOString()])
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const isNested = typeof item === 'object' && item !== null &&
+        !(item instanceof Date) && !isBlob(item)
+      toPairs(item, isNested ? `${key}[${index}]` : `${key}[]`, pairs)
+    })
+  } else if (typeof value === 'object') {
+    for (const [subKey, item] of Object.entries(value)) {
+      toPairs(item, key ? `${key}[${subKey}]` : subKey, pairs)
+    }
+  } else {
+    pairs.push([key, String(value)])
+  }
+  return pairs
+}
+
+/**
+ * Converts the given object into URLSearchParams using the same key syntax that `inputFromSearch` parses.
+ * Values that are not strings are converted to strings, `null`, `undefined` and Blob values are skipped.
+ *
+ * @param input the object to convert
+ * @returns the URLSearchParams
+ *
+ * @example
+ *
+ * ```ts
+ * const qs = toSearchParams({ colors: ['red', 'blue'], person: { name: 'Joe' } })
+ * qs.toString()
+ * //    ^? 'colors%5B%5D=red&colors%5B%5D=blue&person%5Bname%5D=Joe'
+ * ```
+ */
+function toSearchParams(input: Record<string, unknown>): URLSearchParams {
+  const searchParams = new URLSearchParams()
+  for (const [key, value] of toPairs(input, '', [])) {
+    if (typeof value === 'string') searchParams.append(key, value)
+  }
+  return searchParams
+}
+
+/**
+ * Converts the given object into FormData using the same key syntax that `inputFromFormData` parses.
+ * Values that are not strings or Blobs are converted to strings, `null` and `undefined` values are skipped.
+ *
+ * @param input the object to convert
+ * @returns the FormData
+ *
+ * @example
+ *
+ * ```ts
+ * const formData = toFormData({ tasks: ['one', 'two'] })
+ * await fetch('/tasks', { method: 'POST', body: formData })
+ * ```
+ */
+function toFormData(input: Record<string, unknown>): FormData {
+  const formData = new FormData()
+  for (const [key, value] of toPairs(input, '', [])) {
+    formData.append(key, value)
+  }
+  return formData
 }
 
-export type { FormDataLike, QueryStringRecord, RequestLike }
-export { inputFromForm, inputFromFormData, inputFromSearch, inputFromUrl }
+export type {
+  FormDataLike,
+  FormDataOptions,
+  FormDataRecord,
+  InputWithSchemaOptions,
+  JSONSchemaLike,
+  ParseOptions,
+  QueryStringRecord,
+  RequestInputOptions,
+  RequestLike,
+}
+export {
+  inputFromForm,
+  inputFromFormData,
+  inputFromFormWithSchema,
+  inputFromRequest,
+  inputFromSearch,
+  inputFromSearchWithSchema,
+  inputFromUrl,
+  toFormData,
+  toSearchParams,
+}
@@ -1,6 +1,6 @@
 // deno-lint-ignore-file no-namespace
 
-import type { Composable } from '../types.ts'
+import type { Composable, UnpackData, UnpackErrors } from '../types.ts'
 
 namespace Internal {
   export type IncompatibleArguments = {
@@ -26,6 +26,10 @@ namespace Internal {
     }
     & {}
 
+  export type UnionToIntersection<U> =
+    (U extends any ? (k: U) => void : never) extends (k: infer I) => void ? I
+      : never
+
   export type IsNever<A> =
     // prettier-ignore
     (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends never ? 1 : 2)
@@ -157,6 +161,35 @@ namespace Internal {
       : FailToCompose<A, B>
     : FailToCompose<A, B>
 
+  /**
+   * Collapses a union of errors to `Error` when any of its members is not narrower than `Error`.
+   */
+  export type NormalizeErrors<E> = [Error] extends [E] ? Error : E
+
+  export type ErrorsOfResult<R> = R extends {
+    success: false
+    errors: Array<infer E extends Error>
+  } ? E
+    : never
+
+  export type ErrorsOf<Fn> = Fn extends (...args: any[]) => Promise<infer R>
+    ? ErrorsOfResult<R>
+    : never
+
+  /**
+   * The errors of `mapErrors`: the errors returned by the mapper and the errors the mapper itself may fail with.
+   */
+  export type MappedErrors<Mapper extends Composable> = NormalizeErrors<
+    Extract<
+      Extract<UnpackData<Mapper>, unknown[]>[number] | UnpackErrors<Mapper>,
+      Error
+    >
+  >
+
+  export type UnionErrors<Fns> = NormalizeErrors<
+    Fns extends unknown[] ? ErrorsOf<Fns[number]> : ErrorsOf<Fns[keyof Fns]>
+  >
+
   export type Composables<
     Fns extends Record<string, Function> | Array<Function>,
   > = {
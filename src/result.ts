@@ -0,0 +1,166 @@
+import { failure, success } from './constructors.ts'
+import type { Failure, Success } from './types.ts'
+
+/**
+ * Any result shaped value, such as a `Result` or a `SerializableResult`.
+ */
+type ResultLike<T = unknown, E = unknown> =
+  | Success<T>
+  | { success: false; errors: E[] }
+
+/**
+ * The failure case of a list of results, combining the errors of every one of them.
+ */
+type ZipFailure<E> = [E] extends [Error] ? Failure<E>
+  : { success: false; errors: E[] }
+
+/**
+ * The return type of the zipResults function.
+ */
+type ZipResultsReturn<Rs extends ResultLike[]> =
+  | Success<{ [K in keyof Rs]: Extract<Rs[K], { success: true }>['data'] }>
+  | ZipFailure<Extract<Rs[number], { success: false }>['errors'][number]>
+
+/**
+ * It narrows down a result to its success case.
+ * @example
+ * ```ts
+ * const result = useActionData<typeof action>()
+ * if (isSuccess(result)) {
+ *   result.data
+ * }
+ * ```
+ */
+function isSuccess<R extends ResultLike>(
+  result: R,
+): result is Extract<R, { success: true }> {
+  return result.success
+}
+
+/**
+ * It narrows down a result to its failure case.
+ * @example
+ * ```ts
+ * const result = useActionData<typeof action>()
+ * if (isFailure(result)) {
+ *   result.errors
+ * }
+ * ```
+ */
+function isFailure<R extends ResultLike>(
+  result: R,
+): result is Extract<R, { success: false }> {
+  return !result.success
+}
+
+/**
+ * It calls the handler of the case of the given result and returns its output.
+ * @example
+ * ```ts
+ * const message = match(result, {
+ *   success: (user) => `Welcome, ${user.name}`,
+ *   failure: (errors) => errors[0].message,
+ * })
+ * ```
+ */
+function match<T, E, S, F>(
+  result: ResultLike<T, E>,
+  handlers: { success: (data: T) => S; failure: (errors: E[]) => F },
+): S | F {
+  return result.success
+    ? handlers.success(result.data)
+    : handlers.failure(result.errors)
+}
+
+/**
+ * It reduces a result to a single value calling `onSuccess` with the data or `onFailure` with the errors.
+ * @example
+ * ```ts
+ * const count = fold(result, (users) => users.length, () => 0)
+ * ```
+ */
+function fold<T, E, S, F>(
+  result: ResultLike<T, E>,
+  onSuccess: (data: T) => S,
+  onFailure: (errors: E[]) => F,
+): S | F {
+  return match(result, { success: onSuccess, failure: onFailure })
+}
+
+/**
+ * It returns the data of a successful result or the fallback otherwise.
+ * @example
+ * ```ts
+ * const users = unwrapOr(result, [])
+ * ```
+ */
+function unwrapOr<T, E, F>(result: ResultLike<T, E>, fallback: F): T | F {
+  return result.success ? result.data : fallback
+}
+
+/**
+ * It transforms the data of a successful result. A failure is returned unchanged.
+ * @example
+ * ```ts
+ * const names = mapResult(result, (users) => users.map((u) => u.name))
+ * ```
+ */
+function mapResult<R extends ResultLike, U>(
+  result: R,
+  fn: (data: Extract<R, { success: true }>['data']) => U,
+): Success<U> | Extract<R, { success: false }> {
+  if (!result.success) return result as Extract<R, { success: false }>
+  return success(fn(result.data))
+}
+
+/**
+ * It transforms the data of a successful result into another result. A failure is returned unchanged.
+ * @example
+ * ```ts
+ * const admin = flatMapResult(result, (user) =>
+ *   user.admin ? success(user) : failure([new Error('Forbidden')])
+ * )
+ * ```
+ */
+function flatMapResult<R extends ResultLike, U extends ResultLike>(
+  result: R,
+  fn: (data: Extract<R, { success: true }>['data']) => U,
+): U | Extract<R, { success: false }> {
+  if (!result.success) return result as Extract<R, { success: false }>
+  return fn(result.data)
+}
+
+/**
+ * It combines a list of results into a single one.
+ * It succeeds with the list of data when every result is successful, otherwise it fails with the errors of every failure.
+ * @example
+ * ```ts
+ * const result = zipResults(userResult, projectsResult)
+ * //    ^? Result<[User, Project[]]>
+ * ```
+ */
+function zipResults<Rs extends ResultLike[]>(
+  ...results: Rs
+): ZipResultsReturn<Rs> {
+  const errors = results.flatMap((result) =>
+    result.success ? [] : result.errors
+  )
+  if (results.some((result) => !result.success)) {
+    return failure(errors as Error[]) as ZipResultsReturn<Rs>
+  }
+  return success(
+    results.map((result) => (result as Success<unknown>).data),
+  ) as ZipResultsReturn<Rs>
+}
+
+export {
+  flatMapResult,
+  fold,
+  isFailure,
+  isSuccess,
+  mapResult,
+  match,
+  unwrapOr,
+  zipResults,
+}
+export type { ResultLike, ZipResultsReturn }
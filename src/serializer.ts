@@ -1,25 +1,75 @@
-import { ContextError } from './errors.ts'
+import { failure, success, toError } from './constructors.ts'
+import {
+  AbortError,
+  ContextError,
+  EnvironmentError,
+  ErrorList,
+  TimeoutError,
+} from './errors.ts'
 import { InputError } from './errors.ts'
-import type { Result, SerializableError, SerializableResult } from './types.ts'
+import type {
+  DeserializableError,
+  ErrorRegistry,
+  JsonSerializableError,
+  JsonSerializableResult,
+  JsonSerializeOptions,
+  JsonValue,
+  Result,
+  SerializableError,
+  SerializableResult,
+  Success,
+} from './types.ts'
 
 /**
- * It receives an error and returns a serializable error to keep important data - such as the error name and the path - across the network.
+ * Returns the errors nested in an `ErrorList` or in an `AggregateError`.
  */
-function serializeError(error: Error): SerializableError {
-  if (error instanceof InputError || error instanceof ContextError) {
-    return {
-      exception: error,
-      message: error.message,
-      name: error.name,
-      path: error.path,
-    }
-  }
-  return {
+function nestedErrors(error: Error): Error[] | undefined {
+  if (error instanceof ErrorList) return error.list
+  if (error instanceof AggregateError) return error.errors.map(toError)
+}
+
+/**
+ * Returns the cause of an error as an Error, unless it is one of the given ancestors.
+ */
+function causeOf(error: Error, ancestors: Error[]): Error | undefined {
+  if (error.cause === undefined) return undefined
+
+  const cause = toError(error.cause)
+  return ancestors.includes(cause) ? undefined : cause
+}
+
+function pathOf(error: Error): string[] {
+  return error instanceof InputError || error instanceof ContextError
+    ? error.path
+    : []
+}
+
+function serializeErrorTree(
+  error: Error,
+  ancestors: Error[],
+): SerializableError {
+  const serialized: SerializableError = {
     exception: error,
     message: error.message,
     name: error.name,
-    path: [],
+    path: pathOf(error),
+  }
+  const chain = [...ancestors, error]
+  const errors = nestedErrors(error)
+  if (errors) {
+    serialized.errors = errors.map((item) => serializeErrorTree(item, chain))
   }
+  const cause = causeOf(error, chain)
+  if (cause) serialized.cause = serializeErrorTree(cause, chain)
+  return serialized
+}
+
+/**
+ * It receives an error and returns a serializable error to keep important data - such as the error name and the path - across the network.
+ * The cause of the error and the errors of an `AggregateError` or an `ErrorList` are serialized as well.
+ */
+function serializeError(error: Error): SerializableError {
+  return serializeErrorTree(error, [])
 }
 
 /**
@@ -31,4 +81,256 @@ function serialize<T>(result: Result<T>): SerializableResult<T> {
   return { success: false, errors: result.errors.map(serializeError) }
 }
 
-export { serialize, serializeError }
+const ownErrorKeys = ['cause', 'message', 'name', 'path', 'stack']
+
+/**
+ * It converts a value to a JSON-safe value, replacing the redacted properties. The `toJSON` method of a value is called like `JSON.stringify` does and values without a JSON representation are dropped.
+ */
+function toJsonValue(
+  value: unknown,
+  redact: string[],
+  seen: WeakSet<object>,
+): JsonValue | undefined {
+  if (value === null) return null
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value
+    case 'number':
+      return Number.isFinite(value) ? value : null
+    case 'bigint':
+      return value.toString()
+    case 'object':
+      break
+    default:
+      return undefined
+  }
+
+  const obj = value as object
+  if (typeof (obj as { toJSON?: unknown }).toJSON === 'function') {
+    const json = (obj as { toJSON: () => unknown }).toJSON()
+    if (json !== obj) return toJsonValue(json, redact, seen)
+  }
+  if (seen.has(obj)) return '[Circular]'
+  seen.add(obj)
+  try {
+    if (Array.isArray(obj)) {
+      return obj.map((item) => toJsonValue(item, redact, seen) ?? null)
+    }
+    const keys = obj instanceof Error
+      ? ['name', 'message', ...Object.keys(obj)]
+      : Object.keys(obj)
+    const json: Record<string, JsonValue> = {}
+    for (const key of keys) {
+      if (redact.includes(key)) {
+        json[key] = '[REDACTED]'
+        continue
+      }
+      const item = toJsonValue(
+        (obj as Record<string, unknown>)[key],
+        redact,
+        seen,
+      )
+      if (item !== undefined) json[key] = item
+    }
+    return json
+  } finally {
+    seen.delete(obj)
+  }
+}
+
+/**
+ * It receives an error and returns a serializable error that is safe to be sent to the browser.
+ * The original exception is omitted, the stack is only kept when asked to and the given properties are redacted.
+ * @param error the error to be serialized
+ * @param options the stack and redaction options
+ * @example
+ * ```ts
+ * const serialized = serializeErrorJson(error, { redact: ['token'] })
+ * JSON.stringify(serialized)
+ * ```
+ */
+function serializeErrorJson(
+  error: Error,
+  options: JsonSerializeOptions = {},
+): JsonSerializableError {
+  return serializeErrorJsonTree(error, options, [])
+}
+
+function serializeErrorJsonTree(
+  error: Error,
+  options: JsonSerializeOptions,
+  ancestors: Error[],
+): JsonSerializableError {
+  const { stack = false, redact = [] } = options
+  const json: JsonSerializableError = {
+    message: error.message,
+    name: error.name,
+    path: pathOf(error).map(String),
+  }
+  if (stack && typeof error.stack === 'string') json.stack = error.stack
+
+  const chain = [...ancestors, error]
+  const errors = nestedErrors(error)
+  if (errors) {
+    json.errors = errors.map((item) =>
+      serializeErrorJsonTree(item, options, chain)
+    )
+  }
+  const cause = causeOf(error, chain)
+  if (cause) json.cause = serializeErrorJsonTree(cause, options, chain)
+
+  const properties: Record<string, JsonValue> = {}
+  for (const key of Object.keys(error)) {
+    if (ownErrorKeys.includes(key)) continue
+    if (error instanceof ErrorList && key === 'list') continue
+    if (redact.includes(key)) {
+      properties[key] = '[REDACTED]'
+      continue
+    }
+    const value = toJsonValue(
+      (error as unknown as Record<string, unknown>)[key],
+      redact,
+      new WeakSet([error]),
+    )
+    if (value !== undefined) properties[key] = value
+  }
+  if (Object.keys(properties).length > 0) json.properties = properties
+  return json
+}
+
+/**
+ * It receives a Result and returns a JsonSerializableResult, which is safe to be sent through `JSON.stringify` to the browser.
+ * The data of a successful result is converted to a JSON value the same way as the properties of the errors, without redaction: the output of `toJSON` is used - e.g. dates become ISO strings - BigInts become strings and values without a JSON representation are dropped.
+ * @param result the result to be serialized
+ * @param options the stack and redaction options
+ * @example
+ * ```ts
+ * const result = await createUser(input)
+ * return data(serializeJson(result, {
+ *   stack: process.env.NODE_ENV === 'development',
+ *   redact: ['password', 'token'],
+ * }))
+ * ```
+ */
+function serializeJson<T>(
+  result: Result<T>,
+  options?: JsonSerializeOptions,
+): JsonSerializableResult<T> {
+  if (result.success) {
+    return success(
+      toJsonValue(result.data, [], new WeakSet()) ?? null,
+    ) as JsonSerializableResult<T>
+  }
+
+  return {
+    success: false,
+    errors: result.errors.map((error) => serializeErrorJson(error, options)),
+  }
+}
+
+const defaultErrorRegistry: ErrorRegistry = {
+  AbortError,
+  ContextError,
+  EnvironmentError,
+  Error,
+  InputError,
+  TimeoutError,
+}
+
+/**
+ * It receives a serialized error - even after it went through `JSON.stringify` - and rebuilds it as an instance of its error class.
+ * The library errors are always rebuilt, other classes can be given in the registry. Unknown errors become an `Error` with the same name.
+ * The cause and the nested errors are rebuilt as well.
+ * @param error the serialized error
+ * @param registry the error classes to be used, by name
+ * @example
+ * ```ts
+ * const error = deserializeError(serialized, { NotFoundError })
+ * error instanceof NotFoundError
+ * ```
+ */
+function deserializeError(
+  error: DeserializableError,
+  registry: ErrorRegistry = {},
+): Error {
+  const result = deserializeErrorClass(error, registry)
+  if (error.cause) {
+    Object.defineProperty(result, 'cause', {
+      value: deserializeError(error.cause, registry),
+      writable: true,
+      configurable: true,
+    })
+  }
+  return result
+}
+
+function deserializeErrorClass(
+  error: DeserializableError,
+  registry: ErrorRegistry,
+): Error {
+  const nested = error.errors?.map((item) => deserializeError(item, registry))
+  if (error.name === 'ErrorList') {
+    const list = (error.exception as { list?: unknown } | undefined)?.list
+    return new ErrorList(
+      nested ??
+        (Array.isArray(list)
+          ? list.map((e) => reviveListItem(e, registry))
+          : []),
+    )
+  }
+  if (error.name === 'AggregateError') {
+    return new AggregateError(nested ?? [], error.message)
+  }
+
+  const errors = { ...defaultErrorRegistry, ...registry }
+  const ErrorClass = Object.prototype.hasOwnProperty.call(errors, error.name)
+    ? errors[error.name]
+    : Error
+  const result = new ErrorClass(error.message, error.path ?? [])
+  if (result.name !== error.name) result.name = error.name
+  return result
+}
+
+function reviveListItem(item: unknown, registry: ErrorRegistry): Error {
+  if (item instanceof Error) return item
+
+  const { message = '', name = 'Error', path = [] } = (item ?? {}) as Partial<
+    SerializableError
+  >
+  return deserializeError({ message, name, path }, registry)
+}
+
+/**
+ * It receives a SerializableResult - even after it went through `JSON.stringify` - and rebuilds it as a Result with instances of the error classes.
+ * @param result the serialized result
+ * @param registry the error classes to be used besides the library ones, by name
+ * @example
+ * ```ts
+ * const result = deserialize(await response.json(), { NotFoundError })
+ * if (!result.success && result.errors[0] instanceof NotFoundError) {
+ *   // ...
+ * }
+ * ```
+ */
+function deserialize<T>(
+  result:
+    | Success<T>
+    | { success: false; errors: DeserializableError[] },
+  registry?: ErrorRegistry,
+): Result<T> {
+  if (result.success) return result
+
+  return failure(
+    result.errors.map((error) => deserializeError(error, registry)),
+  )
+}
+
+export {
+  deserialize,
+  deserializeError,
+  serialize,
+  serializeError,
+  serializeErrorJson,
+  serializeJson,
+}
@@ -0,0 +1,92 @@
+import { assertEquals, describe, it, z } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  allSettled,
+  applySchema,
+  composable,
+  failure,
+  InputError,
+  success,
+} from '../index.ts'
+
+const add = composable((a: number, b: number) => a + b)
+const toString = composable((a: unknown) => `${a}`)
+const alwaysThrow = composable(() => {
+  throw new Error('Oops!')
+})
+
+describe('allSettled', () => {
+  it('returns a tuple with every result when all are successful', async () => {
+    const fn = allSettled(add, toString)
+    const res = await fn(1, 2)
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<
+          (a: number, b: number) => [Result<number>, Result<string>]
+        >
+      >
+    >
+    type _R = Expect<
+      Equal<typeof res, Result<[Result<number>, Result<string>]>>
+    >
+
+    assertEquals(res, success([success(3), success('1')]))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = allSettled((a: number) => a + 1, (a: number) => String(a))
+    const res = await fn(1)
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<(a: number) => [Result<number>, Result<string>]>
+      >
+    >
+
+    assertEquals(res, success([success(2), success('1')]))
+  })
+
+  it('will enforce noImplicitAny', () => {
+    // @ts-expect-error: implicit any
+    const _fn = allSettled((a, b) => a + b)
+  })
+
+  it('keeps the successful data when some of the functions fail', async () => {
+    const fn = allSettled(add, alwaysThrow, toString)
+    const res = await fn(1, 2)
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<
+          (
+            a: number,
+            b: number,
+          ) => [Result<number>, Result<never>, Result<string>]
+        >
+      >
+    >
+
+    assertEquals(
+      res,
+      success([success(3), failure([new Error('Oops!')]), success('1')]),
+    )
+  })
+
+  it('keeps the errors of each schema function separated', async () => {
+    const a = applySchema(z.object({ id: z.number() }))(({ id }) => id)
+    const b = applySchema(z.object({ id: z.number() }))(() => {
+      throw new InputError('Not found', ['id'])
+    })
+
+    const res = await allSettled(a, b)({ id: 1 })
+
+    assertEquals(
+      res,
+      success([success(1), failure([new InputError('Not found', ['id'])])]),
+    )
+  })
+})
@@ -0,0 +1,116 @@
+import { assertEquals, assertThrows, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import { allWith, composable, failure, success } from '../index.ts'
+
+function tracker() {
+  let running = 0
+  let maxRunning = 0
+  const started: string[] = []
+  const task = (name: string, shouldFail = false) =>
+    composable(async (n: number) => {
+      started.push(name)
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      running--
+      if (shouldFail) throw new Error(`${name} failed`)
+      return `${name}${n}`
+    })
+  return { task, started, maxRunning: () => maxRunning }
+}
+
+describe('allWith', () => {
+  it('runs all functions returning a tuple when all are successful', async () => {
+    const { task } = tracker()
+    const fn = allWith({ concurrency: 2 }, task('a'), task('b'), task('c'))
+    const res = await fn(1)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(n: number) => [string, string, string]>>
+    >
+    type _R = Expect<Equal<typeof res, Result<[string, string, string]>>>
+
+    assertEquals(res, success(['a1', 'b1', 'c1']))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = allWith(
+      {},
+      (a: number, b: number) => a + b,
+      (a: unknown) => `${a}`,
+    )
+    const res = await fn(1, 2)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(a: number, b: number) => [number, string]>>
+    >
+
+    assertEquals(res, success<[number, string]>([3, '1']))
+  })
+
+  it('limits how many functions run at the same time', async () => {
+    const { task, maxRunning } = tracker()
+    const fn = allWith(
+      { concurrency: 2 },
+      task('a'),
+      task('b'),
+      task('c'),
+      task('d'),
+      task('e'),
+    )
+    const res = await fn(1)
+
+    assertEquals(res, success(['a1', 'b1', 'c1', 'd1', 'e1']))
+    assertEquals(maxRunning(), 2)
+  })
+
+  it('throws when the concurrency is not a positive integer or Infinity', () => {
+    const { task } = tracker()
+    for (const concurrency of [NaN, 0, -1, 1.5]) {
+      assertThrows(
+        () => allWith({ concurrency }, task('a')),
+        RangeError,
+        'concurrency must be a positive integer or Infinity',
+      )
+    }
+  })
+
+  it('runs every function at once by default', async () => {
+    const { task, maxRunning } = tracker()
+    await allWith({}, task('a'), task('b'), task('c'))(1)
+
+    assertEquals(maxRunning(), 3)
+  })
+
+  it('combines the errors of every failing function', async () => {
+    const { task, started } = tracker()
+    const fn = allWith(
+      { concurrency: 1 },
+      task('a', true),
+      task('b'),
+      task('c', true),
+    )
+    const res = await fn(1)
+
+    assertEquals(started, ['a', 'b', 'c'])
+    assertEquals(
+      res,
+      failure([new Error('a failed'), new Error('c failed')]),
+    )
+  })
+
+  it('stops scheduling new functions after the first failure when failFast is set', async () => {
+    const { task, started } = tracker()
+    const fn = allWith(
+      { concurrency: 1, failFast: true },
+      task('a'),
+      task('b', true),
+      task('c'),
+      task('d', true),
+    )
+    const res = await fn(1)
+
+    assertEquals(started, ['a', 'b'])
+    assertEquals(res, failure([new Error('b failed')]))
+  })
+})
@@ -0,0 +1,84 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import { any, composable, failure, pipe, success } from '../index.ts'
+
+const delayed = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms))
+
+describe('any', () => {
+  it('returns the result of the first function to succeed', async () => {
+    const failing = composable(async (id: number) => {
+      await delayed(1, null)
+      throw new Error(`Failed ${id}`)
+    })
+    const slow = composable((id: number) => delayed(10, `slow ${id}`))
+    const fn = any(failing, slow)
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(id: number) => string>>>
+    type _R = Expect<Equal<typeof res, Result<string>>>
+
+    assertEquals(res, success('slow 1'))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = any(
+      (_id: number) => new Promise<number>(() => {}),
+      (id: number) => `${id}`,
+    )
+    const res = await fn(1)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(id: number) => number | string>>
+    >
+
+    assertEquals(res, success('1'))
+  })
+
+  it('will enforce noImplicitAny', () => {
+    // @ts-expect-error: implicit any
+    const _fn = any((a) => a)
+  })
+
+  it('combines the errors of every function when all of them fail', async () => {
+    const fn = any(
+      async () => {
+        await delayed(5, null)
+        throw new Error('Error A')
+      },
+      () => {
+        throw new Error('Error B')
+      },
+    )
+    const res = await fn()
+
+    type _FN = Expect<Equal<typeof fn, Composable<() => never>>>
+
+    assertEquals(res, failure([new Error('Error A'), new Error('Error B')]))
+  })
+
+  it('aborts the remaining steps of the losers', async () => {
+    const calls: string[] = []
+    const slow = pipe(
+      () => delayed(10, 'slow'),
+      (s: string) => {
+        calls.push(s)
+        return s
+      },
+    )
+    const fn = any(slow, () => 'fast')
+    const res = await fn()
+    await delayed(20, null)
+
+    assertEquals(res, success('fast'))
+    assertEquals(calls, [])
+  })
+
+  it('fails when it is not given any function', async () => {
+    // @ts-expect-error: any needs at least one function
+    const res = await any()()
+
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0].message, 'any needs at least one function')
+  })
+})
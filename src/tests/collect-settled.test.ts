@@ -0,0 +1,54 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import { collectSettled, composable, failure, success } from '../index.ts'
+
+const add = composable((a: number, b: number) => a + b)
+const toString = composable((a: unknown) => `${a}`)
+
+describe('collectSettled', () => {
+  it('returns a record with every result when all are successful', async () => {
+    const fn = collectSettled({ add, string: toString })
+    const res = await fn(1, 2)
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<
+          (
+            a: number,
+            b: number,
+          ) => { add: Result<number>; string: Result<string> }
+        >
+      >
+    >
+
+    assertEquals(res, success({ add: success(3), string: success('1') }))
+  })
+
+  it('keeps the successful data when some of the functions fail', async () => {
+    const fn = collectSettled({
+      add,
+      fail: () => {
+        throw new Error('Oops!')
+      },
+    })
+    const res = await fn(1, 2)
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<
+          (
+            a: number,
+            b: number,
+          ) => { add: Result<number>; fail: Result<never> }
+        >
+      >
+    >
+
+    assertEquals(
+      res,
+      success({ add: success(3), fail: failure([new Error('Oops!')]) }),
+    )
+  })
+})
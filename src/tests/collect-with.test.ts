@@ -0,0 +1,53 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import { collectWith, failure, success } from '../index.ts'
+
+describe('collectWith', () => {
+  it('collects the results in a record when all are successful', async () => {
+    const fn = collectWith({ concurrency: 1 }, {
+      a: (n: number) => n + 1,
+      b: (n: number) => String(n),
+    })
+    const res = await fn(1)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(n: number) => { a: number; b: string }>>
+    >
+    type _R = Expect<Equal<typeof res, Result<{ a: number; b: string }>>>
+
+    assertEquals(res, success({ a: 2, b: '1' }))
+  })
+
+  it('runs the functions one at a time in the order of the keys', async () => {
+    const order: string[] = []
+    const fn = collectWith({ concurrency: 1 }, {
+      first: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        order.push('first')
+      },
+      second: () => {
+        order.push('second')
+      },
+    })
+    await fn()
+
+    assertEquals(order, ['first', 'second'])
+  })
+
+  it('stops scheduling new functions after the first failure when failFast is set', async () => {
+    const order: string[] = []
+    const fn = collectWith({ concurrency: 1, failFast: true }, {
+      first: () => {
+        order.push('first')
+        throw new Error('first failed')
+      },
+      second: () => {
+        order.push('second')
+      },
+    })
+    const res = await fn()
+
+    assertEquals(order, ['first'])
+    assertEquals(res, failure([new Error('first failed')]))
+  })
+})
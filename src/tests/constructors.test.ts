@@ -170,6 +170,74 @@ describe('fromSuccess', () => {
       await c()
     }, ErrorList)
   })
+
+  it('keeps the original errors as the cause of the mapped errors', async () => {
+    const gatewayError = new Error('402 from gateway')
+    const chargeError = new Error('failed to charge card', {
+      cause: gatewayError,
+    })
+    const chargeCard = composable(() => {
+      throw chargeError
+    })
+    const createOrder = composable(async () => {
+      await fromSuccess(chargeCard, () => [
+        new Error('failed to create order'),
+      ])()
+    })
+
+    const result = await createOrder()
+    assertEquals(result.success, false)
+
+    const [error] = result.errors
+    assertEquals(error.message, 'failed to create order')
+    assertEquals((error.cause as AggregateError).errors, [chargeError])
+    assertEquals(chargeError.cause, gatewayError)
+  })
+
+  it('does not add a cause when the errors are not mapped', async () => {
+    const chargeError = new Error('failed to charge card')
+    const chargeCard = composable(() => {
+      throw chargeError
+    })
+    const createOrder = composable(() => fromSuccess(chargeCard)())
+
+    assertEquals(await createOrder(), failure([chargeError]))
+    assertEquals(chargeError.cause, undefined)
+  })
+})
+
+describe('ErrorList', () => {
+  it('passes its cause on to the errors that have none', async () => {
+    const cause = new Error('402 from gateway')
+    const ownCause = new Error('card expired')
+    const fn = composable(() => {
+      throw new ErrorList([
+        new Error('failed to charge card'),
+        new Error('failed to charge gift card', { cause: ownCause }),
+      ], { cause })
+    })
+
+    const result = await fn()
+    assertEquals(result.success, false)
+    assertEquals(result.errors[0].cause, cause)
+    assertEquals(result.errors[1].cause, ownCause)
+  })
+
+  it('does not change the errors that are shared', async () => {
+    const sharedError = new Error('failed to create order')
+    const fn = composable((n: number) => {
+      throw new ErrorList([sharedError], {
+        cause: new Error(`attempt ${n} failed`),
+      })
+    })
+
+    const first = await fn(1)
+    const second = await fn(2)
+    assertEquals(sharedError.cause, undefined)
+    assertEquals(first.errors[0].message, 'failed to create order')
+    assertEquals((first.errors[0].cause as Error).message, 'attempt 1 failed')
+    assertEquals((second.errors[0].cause as Error).message, 'attempt 2 failed')
+  })
 })
 
 describe('withSchema', () => {
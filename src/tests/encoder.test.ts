@@ -0,0 +1,91 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { DataTypeRegistry, Result } from '../index.ts'
+import {
+  decodeData,
+  decodeResult,
+  encodeData,
+  encodeResult,
+  failure,
+  InputError,
+  success,
+} from '../index.ts'
+
+class Money {
+  constructor(public amount: bigint, public currency: string) {}
+}
+
+const types: DataTypeRegistry = {
+  Money: {
+    is: (value): value is Money => value instanceof Money,
+    encode: (money: Money) => ({
+      amount: money.amount,
+      currency: money.currency,
+    }),
+    decode: ({ amount, currency }) => new Money(amount, currency),
+  },
+}
+
+function roundTrip<T>(value: T) {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+describe('encodeData and decodeData', () => {
+  it('keeps JSON values unchanged', () => {
+    const data = { a: 1, b: ['c', true, null], d: { e: 'f' } }
+
+    assertEquals(encodeData(data), data)
+    assertEquals(decodeData(roundTrip(encodeData(data))), data)
+  })
+
+  it('revives the values JSON cannot represent', () => {
+    const data = {
+      date: new Date('2024-01-01T00:00:00.000Z'),
+      map: new Map([[1, new Set(['a'])]]),
+      big: 10n,
+      missing: undefined,
+      infinite: [Infinity, -Infinity, NaN],
+    }
+    const decoded = decodeData(roundTrip(encodeData(data)))
+
+    type _D = Expect<Equal<typeof decoded, typeof data>>
+
+    assertEquals(decoded, data)
+    assertEquals(decoded.date instanceof Date, true)
+  })
+
+  it('escapes objects with a $type property', () => {
+    const data = { $type: 'Date', value: 'not a date' }
+
+    assertEquals(decodeData(roundTrip(encodeData(data))), data)
+  })
+
+  it('revives the custom types of the registry', () => {
+    const data = { price: new Money(100n, 'USD') }
+    const decoded = decodeData(roundTrip(encodeData(data, types)), types)
+
+    assertEquals(decoded.price instanceof Money, true)
+    assertEquals(decoded, data)
+  })
+})
+
+describe('encodeResult and decodeResult', () => {
+  it('revives the data of a successful result', () => {
+    const result = success({ at: new Date('2024-01-01T00:00:00.000Z') })
+    const decoded = decodeResult(roundTrip(encodeResult(result)))
+
+    type _R = Expect<Equal<typeof decoded, Result<{ readonly at: Date }>>>
+
+    assertEquals(decoded, result)
+  })
+
+  it('encodes the errors of a failed result to JSON-safe errors', () => {
+    const result: Result<number> = failure([new InputError('Oops!', ['a'])])
+    const encoded = encodeResult(result)
+
+    assertEquals(encoded, {
+      success: false,
+      errors: [{ message: 'Oops!', name: 'InputError', path: ['a'] }],
+    })
+    assertEquals(decodeResult(roundTrip(encoded)), result)
+  })
+})
@@ -2,10 +2,15 @@ import { assertEquals, describe, it } from './prelude.ts'
 import {
   ContextError,
   EnvironmentError,
+  errorsToFieldMap,
+  errorsToNestedFieldMap,
   InputError,
   isContextError,
   isEnvironmentError,
   isInputError,
+  isTimeoutError,
+  serializeError,
+  TimeoutError,
 } from '../index.ts'
 
 describe('isInputError', () => {
@@ -32,3 +37,86 @@ describe('isContextError', () => {
     assertEquals(isEnvironmentError(new EnvironmentError('Yes')), true)
   })
 })
+
+describe('isTimeoutError', () => {
+  it('checks if an error is instance of TimeoutError', () => {
+    assertEquals(isTimeoutError(new Error('No')), false)
+    assertEquals(isTimeoutError(new InputError('No')), false)
+    assertEquals(isTimeoutError(new TimeoutError('Yes')), true)
+    assertEquals(
+      isTimeoutError({ name: 'TimeoutError', message: 'Yes' }),
+      true,
+    )
+  })
+})
+
+describe('errorsToFieldMap', () => {
+  it('groups the messages of input errors by their paths', () => {
+    const fieldMap = errorsToFieldMap([
+      new InputError('Required', ['user', 'name']),
+      new InputError('Too short', ['user', 'name']),
+      new InputError('Invalid email', ['email']),
+      new InputError('Invalid input'),
+      new ContextError('Unauthorized', ['user']),
+      new Error('Something went wrong'),
+    ])
+
+    assertEquals(fieldMap, {
+      'user.name': ['Required', 'Too short'],
+      email: ['Invalid email'],
+      _global: ['Invalid input', 'Unauthorized', 'Something went wrong'],
+    })
+  })
+
+  it('works with serialized errors', () => {
+    const errors = [
+      new InputError('Required', ['items', '0', 'id']),
+      new Error('Oops'),
+    ].map(serializeError)
+
+    assertEquals(errorsToFieldMap(errors), {
+      'items.0.id': ['Required'],
+      _global: ['Oops'],
+    })
+  })
+
+  it('does not touch the prototype for special keys', () => {
+    const fieldMap = errorsToFieldMap([new InputError('Nope', ['__proto__'])])
+
+    assertEquals(Object.getPrototypeOf(fieldMap), Object.prototype)
+    assertEquals(Object.keys(fieldMap), ['_global', '__proto__'])
+  })
+})
+
+describe('errorsToNestedFieldMap', () => {
+  it('groups the messages of input errors in an object shaped like the input', () => {
+    const tree = errorsToNestedFieldMap([
+      new InputError('Required', ['user', 'name']),
+      new InputError('Invalid email', ['user', 'email']),
+      new InputError('Required', ['items', '0', 'id']),
+      new Error('Something went wrong'),
+    ])
+
+    assertEquals(tree, {
+      user: { name: ['Required'], email: ['Invalid email'] },
+      items: { '0': { id: ['Required'] } },
+      _global: ['Something went wrong'],
+    })
+  })
+
+  it('keeps the messages of a path with nested fields in _errors', () => {
+    const tree = errorsToNestedFieldMap([
+      new InputError('Invalid address', ['address']),
+      new InputError('Required', ['address', 'street']),
+      new InputError('Incomplete', ['address']),
+    ])
+
+    assertEquals(tree, {
+      address: {
+        _errors: ['Invalid address', 'Incomplete'],
+        street: ['Required'],
+      },
+      _global: [],
+    })
+  })
+})
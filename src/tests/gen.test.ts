@@ -0,0 +1,196 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  abortable,
+  composable,
+  failure,
+  fromSuccess,
+  gen,
+  InputError,
+  pipe,
+  step,
+  success,
+  typedComposable,
+  withSignal,
+} from '../index.ts'
+
+class NotFoundError extends Error {
+  override readonly name = 'NotFoundError'
+}
+
+const add = composable((a: number, b: number) => a + b)
+const toString = composable((a: number) => String(a))
+const getUser = typedComposable((id: number) => {
+  if (id === 0) throw new NotFoundError('User not found')
+  return { id, name: 'John' }
+}, (error) => new NotFoundError(error.message))
+
+describe('gen', () => {
+  it('unwraps the data of every step', async () => {
+    const fn = gen(function* (a: number, b: number) {
+      const sum = yield* step(add(a, b))
+      const str = yield* step(toString(sum))
+      return `${str}!`
+    })
+    const res = await fn(1, 2)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(a: number, b: number) => string>>
+    >
+    type _R = Expect<Equal<typeof res, Result<string>>>
+
+    assertEquals(res, success('3!'))
+  })
+
+  it('allows conditionals and loops between steps', async () => {
+    const fn = gen(function* (ns: number[]) {
+      let total = 0
+      for (const n of ns) {
+        if (n < 0) continue
+        total = yield* step(add(total, n))
+      }
+      return total
+    })
+
+    assertEquals(await fn([1, -2, 3]), success(4))
+  })
+
+  it('accepts results that are not promises', async () => {
+    const fn = gen(function* () {
+      const a = yield* step(success(1))
+      return a + 1
+    })
+
+    assertEquals(await fn(), success(2))
+  })
+
+  it('short-circuits on the first failed step', async () => {
+    const calls: number[] = []
+    const fn = gen(function* (id: number) {
+      calls.push(1)
+      const user = yield* step(getUser(id))
+      calls.push(2)
+      return user.name
+    })
+    const res = await fn(0)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(id: number) => string>>
+    >
+
+    assertEquals(calls, [1])
+    assertEquals(res, failure([new NotFoundError('User not found')]))
+  })
+
+  it('runs the finally blocks of the generator when a step fails', async () => {
+    let finalized = false
+    const fn = gen(function* () {
+      try {
+        yield* step(getUser(0))
+      } finally {
+        finalized = true
+      }
+    })
+
+    assertEquals(await fn(), failure([new NotFoundError('User not found')]))
+    assertEquals(finalized, true)
+  })
+
+  it('fails when the generator throws', async () => {
+    const fn = gen(function* (id: number) {
+      const user = yield* step(getUser(id))
+      if (user.id > 10) throw new InputError('Invalid id', ['id'])
+      return user
+    })
+
+    assertEquals(
+      await fn(11),
+      failure([new InputError('Invalid id', ['id'])]),
+    )
+  })
+
+  it('fails when the generator yields something other than a result', async () => {
+    // @ts-expect-error: only results can be yielded
+    const fn = gen(function* () {
+      yield 5
+      return 1
+    })
+    const res = await fn()
+
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0].message.startsWith('gen can only yield'), true)
+  })
+
+  it('fails with the errors of a fromSuccess call', async () => {
+    const fn = gen(function* () {
+      yield* step(success(1))
+      return fromSuccess(getUser)(0)
+    })
+
+    assertEquals(await fn(), failure([new NotFoundError('User not found')]))
+  })
+
+  it('calls the functions given to step with their arguments', async () => {
+    const fn = gen(function* (a: number) {
+      const sum = yield* step(add, a, 2)
+      return yield* step((n: number) => `${n}!`, sum)
+    })
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(a: number) => string>>>
+
+    assertEquals(res, success('3!'))
+  })
+
+  it('checks the signal between steps', async () => {
+    const controller = new AbortController()
+    const fn = gen(function* () {
+      const a = yield* step(add(1, 2))
+      controller.abort()
+      return yield* step(add(a, 3))
+    })
+    const res = await withSignal(fn, controller.signal)()
+
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0].name, 'AbortError')
+  })
+
+  it('runs the finally blocks of the generator when the signal is aborted', async () => {
+    const controller = new AbortController()
+    let finalized = false
+    const fn = gen(function* () {
+      try {
+        yield* step(
+          abortable(() => {
+            controller.abort()
+            return 1
+          }),
+        )
+        return 2
+      } finally {
+        finalized = true
+      }
+    })
+    const res = await withSignal(fn, controller.signal)()
+
+    assertEquals(res.errors[0].name, 'AbortError')
+    assertEquals(finalized, true)
+  })
+
+  it('forwards the signal to the functions given to step', async () => {
+    const calls: string[] = []
+    const controller = new AbortController()
+    const track = (name: string) => (n: number) => {
+      calls.push(name)
+      if (calls.length === 2) controller.abort()
+      return n + 1
+    }
+    const fn = gen(function* (n: number) {
+      return yield* step(pipe(track('a'), track('b'), track('c')), n)
+    })
+    const res = await withSignal(fn, controller.signal)(1)
+
+    assertEquals(calls, ['a', 'b'])
+    assertEquals(res.errors[0].name, 'AbortError')
+  })
+})
@@ -1,4 +1,6 @@
-import { assertEquals, describe, it } from './prelude.ts'
+import { assertEquals, assertRejects, describe, it, z } from './prelude.ts'
+import { ErrorList, InputError } from '../errors.ts'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
 import * as subject from '../input-resolvers.ts'
 
 const makePost: (entries: Array<[string, string]>, url?: string) => Request = (
@@ -68,6 +70,130 @@ describe('inputFromForm', () => {
   })
 })
 
+describe('inputFromForm with files', () => {
+  const makeMultipart = (formData: FormData) =>
+    new Request('http://localhost/test', { method: 'POST', body: formData })
+
+  it('keeps the files of a multipart request', async () => {
+    const formData = new FormData()
+    formData.append('name', 'John')
+    formData.append('avatar', new File(['avatar'], 'avatar.png'))
+    const input = await subject.inputFromForm(makeMultipart(formData))
+
+    assertEquals(input.name, 'John')
+    assertEquals(input.avatar instanceof File, true)
+    assertEquals((input.avatar as File).name, 'avatar.png')
+  })
+
+  it('keeps the files within the structure of the keys', async () => {
+    const formData = new FormData()
+    formData.append('photos[]', new File(['a'], 'a.png'))
+    formData.append('photos[]', new File(['b'], 'b.png'))
+    formData.append('people[0][avatar]', new File(['c'], 'c.png'))
+    const input = await subject.inputFromForm(makeMultipart(formData))
+
+    const photos = input.photos as File[]
+    const people = input.people as Array<{ avatar: File }>
+    assertEquals(photos.map((photo) => photo.name), ['a.png', 'b.png'])
+    assertEquals(people[0].avatar.name, 'c.png')
+  })
+
+  it('rejects with an InputError for every file beyond the limits', async () => {
+    const formData = new FormData()
+    formData.append('photos[]', new File(['small'], 'a.png'))
+    formData.append('photos[]', new File(['too large'], 'b.png'))
+    formData.append('avatar', new File(['small'], 'c.png'))
+    const request = makeMultipart(formData)
+
+    const error = await assertRejects(
+      () => subject.inputFromForm(request, { maxFileSize: 5, maxFiles: 2 }),
+      ErrorList,
+    )
+    assertEquals((error as ErrorList).list, [
+      new InputError('Too many files, the maximum is 2', ['photos', '1']),
+      new InputError('File is larger than 5 bytes', ['photos', '1']),
+    ])
+  })
+})
+
+describe('inputFromRequest', () => {
+  it('parses the URL of a GET request', async () => {
+    const request = makeGet([['page', '2']])
+    assertEquals(await subject.inputFromRequest(request), { page: '2' })
+  })
+
+  it('parses a JSON body', async () => {
+    const request = new Request('http://localhost/test?id=1', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      body: JSON.stringify({ name: 'John', tags: ['a'] }),
+    })
+    assertEquals(await subject.inputFromRequest(request), {
+      id: '1',
+      name: 'John',
+      tags: ['a'],
+    })
+  })
+
+  it('parses url-encoded and multipart forms', async () => {
+    const formData = new FormData()
+    formData.append('tasks[]', 'one')
+    const multipart = new Request('http://localhost/test', {
+      method: 'POST',
+      body: formData,
+    })
+    assertEquals(await subject.inputFromRequest(multipart), {
+      tasks: ['one'],
+    })
+    assertEquals(await subject.inputFromRequest(makePost([['a', '1']])), {
+      a: '1',
+    })
+  })
+
+  it('merges the URL and the body with the given precedence', async () => {
+    const request = makePost(
+      [['id', 'body'], ['name', 'John']],
+      'http://localhost/test?id=url',
+    )
+    assertEquals(await subject.inputFromRequest(request), {
+      id: 'body',
+      name: 'John',
+    })
+    assertEquals(
+      await subject.inputFromRequest(request, { precedence: 'url' }),
+      { id: 'url', name: 'John' },
+    )
+  })
+
+  it('rejects with an ErrorList when the body cannot be parsed', async () => {
+    const invalid = new Request('http://localhost/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{',
+    })
+    const unsupported = new Request('http://localhost/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'hello',
+    })
+
+    const invalidError = await assertRejects(
+      () => subject.inputFromRequest(invalid),
+      ErrorList,
+    )
+    assertEquals((invalidError as ErrorList).list, [
+      new InputError('Invalid JSON body', []),
+    ])
+    const unsupportedError = await assertRejects(
+      () => subject.inputFromRequest(unsupported),
+      ErrorList,
+    )
+    assertEquals((unsupportedError as ErrorList).list, [
+      new InputError('Unsupported Content-Type: text/plain', []),
+    ])
+  })
+})
+
 describe('inputFromUrl', () => {
   it("extracts the input values from a Request's URL as an Object", () => {
     const request = makeGet([
@@ -131,6 +257,17 @@ describe('inputFromFormData', () => {
       tasks: ['one', 'two'],
     })
   })
+
+  it('keeps Blob values', () => {
+    const blob = new Blob(['content'])
+    const formData = new FormData()
+    formData.append('attachments[0][file]', blob)
+    const input = subject.inputFromFormData(formData)
+
+    const [attachment] = input.attachments as Array<{ file: Blob }>
+    assertEquals(attachment.file instanceof Blob, true)
+    assertEquals(attachment.file.size, blob.size)
+  })
 })
 
 describe('inputFromSearch', () => {
@@ -279,3 +416,307 @@ describe('inputFromSearch', () => {
     })
   })
 })
+
+describe('inputFromSearch limits', () => {
+  const errorsOf = (fn: () => unknown) => {
+    try {
+      fn()
+    } catch (error) {
+      return (error as ErrorList).list
+    }
+    throw new Error('Expected to throw')
+  }
+
+  it('refuses the keys that would reach the prototype', () => {
+    const qs = new URLSearchParams(
+      '__proto__[polluted]=1&a[constructor][prototype][polluted]=1',
+    )
+
+    assertEquals(errorsOf(() => subject.inputFromSearch(qs)), [
+      new InputError('Forbidden key: __proto__', ['__proto__']),
+      new InputError('Forbidden key: constructor', ['a', 'constructor']),
+    ])
+    assertEquals(({} as Record<string, unknown>).polluted, undefined)
+  })
+
+  it('does not write into inherited properties', () => {
+    const qs = new URLSearchParams('a[toString][polluted]=1&hasOwnProperty=2')
+
+    assertEquals(subject.inputFromSearch(qs), {
+      a: { toString: { polluted: '1' } },
+      hasOwnProperty: '2',
+    })
+    assertEquals(
+      (Object.prototype.toString as unknown as Record<string, unknown>)
+        .polluted,
+      undefined,
+    )
+  })
+
+  it('caps the nesting depth', () => {
+    const qs = new URLSearchParams('a[b][c][d]=1')
+
+    assertEquals(
+      errorsOf(() => subject.inputFromSearch(qs, { maxDepth: 2 })),
+      [
+        new InputError('Key is nested deeper than 2 levels', [
+          'a',
+          'b',
+          'c',
+          'd',
+        ]),
+      ],
+    )
+    assertEquals(subject.inputFromSearch(qs, { maxDepth: 3 }), {
+      a: { b: { c: { d: '1' } } },
+    })
+  })
+
+  it('caps the index of the lists', () => {
+    const qs = new URLSearchParams('a[99999999]=x&b[0][1001][c]=y')
+
+    assertEquals(errorsOf(() => subject.inputFromSearch(qs)), [
+      new InputError('Index is larger than 1000', ['a', '99999999']),
+      new InputError('Index is larger than 1000', ['b', '0', '1001']),
+    ])
+  })
+
+  it('caps the number of parameters', () => {
+    const qs = new URLSearchParams('a=1&b=2&c=3')
+
+    assertEquals(
+      errorsOf(() => subject.inputFromSearch(qs, { maxParameters: 2 })),
+      [new InputError('Too many parameters, the maximum is 2', [])],
+    )
+  })
+
+  it('applies the limits to FormData', () => {
+    const formData = new FormData()
+    formData.append('items[5000]', 'x')
+
+    assertEquals(errorsOf(() => subject.inputFromFormData(formData)), [
+      new InputError('Index is larger than 1000', ['items', '5000']),
+    ])
+  })
+})
+
+describe('toSearchParams', () => {
+  it('builds the keys that inputFromSearch understands', () => {
+    const qs = subject.toSearchParams({
+      name: 'Joe',
+      colors: ['red', 'blue'],
+      person: { email: 'joe@doe.com', tags: ['a'] },
+    })
+
+    assertEquals([...qs], [
+      ['name', 'Joe'],
+      ['colors[]', 'red'],
+      ['colors[]', 'blue'],
+      ['person[email]', 'joe@doe.com'],
+      ['person[tags][]', 'a'],
+    ])
+  })
+
+  it('round-trips through inputFromSearch', () => {
+    const input = {
+      'some key': 'with spaces & symbols=?',
+      colors: ['c', 'b', 'a', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l'],
+      people: [
+        { name: 'Joe', emails: ['joe@doe.com'] },
+        { name: 'Jane', address: { city: 'Rio' } },
+      ],
+      matrix: [['1', '2'], ['3']],
+    }
+
+    assertEquals(subject.inputFromSearch(subject.toSearchParams(input)), input)
+  })
+
+  it('converts values to strings and skips empty values', () => {
+    const qs = subject.toSearchParams({
+      page: 2,
+      active: true,
+      since: new Date('2024-01-01T00:00:00.000Z'),
+      missing: undefined,
+      nothing: null,
+    })
+
+    assertEquals(subject.inputFromSearch(qs), {
+      page: '2',
+      active: 'true',
+      since: '2024-01-01T00:00:00.000Z',
+    })
+  })
+})
+
+describe('toFormData', () => {
+  it('round-trips through inputFromFormData', () => {
+    const input = {
+      email: 'john@doe.com',
+      tasks: ['one', 'two'],
+      person: [{ email: 'john@doe.com', password: '1234' }],
+    }
+
+    assertEquals(subject.inputFromFormData(subject.toFormData(input)), input)
+  })
+
+  it('keeps Blob values', () => {
+    const file = new File(['hello'], 'hello.txt')
+    const formData = subject.toFormData({ user: { avatar: file } })
+
+    assertEquals(formData.get('user[avatar]') instanceof File, true)
+  })
+})
+
+describe('inputFromSearchWithSchema', () => {
+  const schema = z.object({
+    page: z.number(),
+    active: z.boolean(),
+    tags: z.array(z.string()),
+    price: z.number().nullable().optional(),
+    filters: z.object({ ids: z.array(z.number()) }),
+  })
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input' })
+
+  it('coerces the values to the types expected by the schema', async () => {
+    const qs = new URLSearchParams(
+      'page=2&active=on&tags=a&price=&filters[ids][]=1&filters[ids][]=2',
+    )
+    const input = subject.inputFromSearchWithSchema(qs, schema, { jsonSchema })
+
+    assertEquals(input, {
+      page: 2,
+      active: true,
+      tags: ['a'],
+      price: undefined,
+      filters: { ids: [1, 2] },
+    })
+    assertEquals(
+      (await schema['~standard'].validate(input)).issues,
+      undefined,
+    )
+  })
+
+  it('keeps the values that cannot be coerced', () => {
+    const qs = new URLSearchParams('page=two&active=maybe')
+    const input = subject.inputFromSearchWithSchema(qs, schema, { jsonSchema })
+
+    assertEquals(input, { page: 'two', active: 'maybe' })
+  })
+
+  it('coerces dates when the schema node has a date format', () => {
+    const qs = new URLSearchParams('since=2024-01-01T00:00:00.000Z')
+    const input = subject.inputFromSearchWithSchema(qs, z.object({}), {
+      jsonSchema: {
+        type: 'object',
+        properties: { since: { format: 'date-time' } },
+      },
+    })
+
+    assertEquals(input, { since: new Date('2024-01-01T00:00:00.000Z') })
+  })
+
+  it('keeps the strings with a date format', async () => {
+    const schema = z.object({ at: z.iso.datetime(), on: z.iso.date() })
+    const qs = new URLSearchParams('at=2024-01-01T00:00:00Z&on=2024-01-01')
+    const input = subject.inputFromSearchWithSchema(qs, schema, {
+      jsonSchema: z.toJSONSchema(schema, { io: 'input' }),
+    })
+
+    assertEquals(input, { at: '2024-01-01T00:00:00Z', on: '2024-01-01' })
+    assertEquals(
+      (await schema['~standard'].validate(input)).issues,
+      undefined,
+    )
+  })
+
+  it('coerces the dates of a zod schema given a date format', async () => {
+    const schema = z.object({ since: z.date(), until: z.date().optional() })
+    const qs = new URLSearchParams('since=2024-01-01T00:00:00.000Z')
+    const input = subject.inputFromSearchWithSchema(qs, schema, {
+      jsonSchema: z.toJSONSchema(schema, {
+        io: 'input',
+        unrepresentable: 'any',
+        override: (ctx) => {
+          if (ctx.zodSchema._zod.def.type === 'date') {
+            ctx.jsonSchema.format = 'date-time'
+          }
+        },
+      }),
+    })
+
+    assertEquals(input, { since: new Date('2024-01-01T00:00:00.000Z') })
+    assertEquals(
+      (await schema['~standard'].validate(input)).issues,
+      undefined,
+    )
+  })
+
+  it('uses the JSON Schema exposed by the schema vendor', () => {
+    const standardSchema = {
+      '~standard': {
+        ...schema['~standard'],
+        jsonSchema: { input: () => jsonSchema },
+      },
+    } as StandardSchemaV1
+
+    const qs = new URLSearchParams('page=3')
+    assertEquals(subject.inputFromSearchWithSchema(qs, standardSchema), {
+      page: 3,
+    })
+  })
+
+  it('computes the JSON Schema of the vendor once per schema', () => {
+    let calls = 0
+    const standardSchema = {
+      '~standard': {
+        ...schema['~standard'],
+        jsonSchema: {
+          input: () => {
+            calls++
+            return jsonSchema
+          },
+        },
+      },
+    } as StandardSchemaV1
+
+    const qs = new URLSearchParams('page=3')
+    subject.inputFromSearchWithSchema(qs, standardSchema)
+    subject.inputFromSearchWithSchema(qs, standardSchema)
+    assertEquals(calls, 1)
+  })
+
+  it('does not coerce when the vendor fails to produce the JSON Schema', () => {
+    const standardSchema = {
+      '~standard': {
+        ...schema['~standard'],
+        jsonSchema: {
+          input: () => {
+            throw new Error('Date cannot be represented in JSON Schema')
+          },
+        },
+      },
+    } as StandardSchemaV1
+
+    const qs = new URLSearchParams('page=3')
+    assertEquals(subject.inputFromSearchWithSchema(qs, standardSchema), {
+      page: '3',
+    })
+  })
+
+  it('does not coerce when the JSON Schema is not available', () => {
+    const qs = new URLSearchParams('page=3')
+    assertEquals(subject.inputFromSearchWithSchema(qs, schema), { page: '3' })
+  })
+})
+
+describe('inputFromFormWithSchema', () => {
+  it('coerces a checkbox list with a single checked item', async () => {
+    const schema = z.object({ age: z.number(), roles: z.array(z.string()) })
+    const request = makePost([['age', '30'], ['roles', 'admin']])
+    const input = await subject.inputFromFormWithSchema(request, schema, {
+      jsonSchema: z.toJSONSchema(schema, { io: 'input' }),
+    })
+
+    assertEquals(input, { age: 30, roles: ['admin'] })
+  })
+})
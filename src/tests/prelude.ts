@@ -5,6 +5,7 @@ export {
   assertIsError,
   assertObjectMatch,
   assertRejects,
+  assertThrows,
 } from 'https://deno.land/std@0.206.0/assert/mod.ts'
 export { z } from 'zod'
 export * as valibot from 'valibot'
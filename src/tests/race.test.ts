@@ -0,0 +1,115 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  AbortError,
+  composable,
+  failure,
+  pipe,
+  race,
+  success,
+  withSignal,
+} from '../index.ts'
+
+const delayed = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms))
+const neverEnding = <T>() => new Promise<T>(() => {})
+
+describe('race', () => {
+  it('returns the result of the first function to finish', async () => {
+    const fast = composable((id: number) => delayed(1, `fast ${id}`))
+    const slow = composable((_id: number) => neverEnding<number>())
+    const fn = race(slow, fast)
+    const res = await fn(1)
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(id: number) => string | number>>
+    >
+    type _R = Expect<Equal<typeof res, Result<string | number>>>
+
+    assertEquals(res, success('fast 1'))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = race(
+      (id: number) => id + 1,
+      (_id: number) => neverEnding<number>(),
+    )
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(id: number) => number>>>
+
+    assertEquals(res, success(2))
+  })
+
+  it('will enforce noImplicitAny', () => {
+    // @ts-expect-error: implicit any
+    const _fn = race((a) => a)
+  })
+
+  it('returns the failure when the first function to finish fails', async () => {
+    const fn = race(
+      () => neverEnding<string>(),
+      async () => {
+        await delayed(1, null)
+        throw new Error('Oops!')
+      },
+    )
+    const res = await fn()
+
+    assertEquals(res, failure([new Error('Oops!')]))
+  })
+
+  it('aborts the remaining steps of the losers', async () => {
+    const calls: string[] = []
+    const slow = pipe(
+      () => delayed(10, 'slow'),
+      (s: string) => {
+        calls.push(s)
+        return s
+      },
+    )
+    const fn = race(slow, () => 'fast')
+    const res = await fn()
+    await delayed(20, null)
+
+    assertEquals(res, success('fast'))
+    assertEquals(calls, [])
+  })
+
+  it('fails with an AbortError when the outer signal is aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const res = await withSignal(race(() => 1, () => 2), controller.signal)()
+
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+
+  it('fails when it is not given any function', async () => {
+    // @ts-expect-error: race needs at least one function
+    const res = await race()()
+
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0].message, 'race needs at least one function')
+  })
+
+  it('stops listening to the outer signal once the race is over', async () => {
+    const controller = new AbortController()
+    const listeners: (AddEventListenerOptions | undefined)[] = []
+    const addEventListener = controller.signal.addEventListener.bind(
+      controller.signal,
+    )
+    controller.signal.addEventListener = ((
+      type: string,
+      listener: EventListener,
+      options?: AddEventListenerOptions,
+    ) => {
+      listeners.push(options)
+      addEventListener(type, listener, options)
+    }) as typeof controller.signal.addEventListener
+
+    await withSignal(race(() => 1, () => 2), controller.signal)()
+
+    assertEquals(listeners.length, 1)
+    assertEquals(listeners[0]?.signal?.aborted, true)
+  })
+})
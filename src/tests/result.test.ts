@@ -0,0 +1,144 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Failure, Result, SerializableResult, Success } from '../index.ts'
+import {
+  failure,
+  flatMapResult,
+  fold,
+  InputError,
+  isFailure,
+  isSuccess,
+  mapResult,
+  match,
+  serialize,
+  success,
+  unwrapOr,
+  zipResults,
+} from '../index.ts'
+import type { SerializableError } from '../types.ts'
+
+const ok = success(1) as Result<number>
+const ko = failure([new Error('Oops')]) as Result<number>
+
+describe('isSuccess and isFailure', () => {
+  it('narrows down the result', () => {
+    if (isSuccess(ok)) {
+      type _R = Expect<Equal<typeof ok, Success<number>>>
+    }
+    if (isFailure(ko)) {
+      type _E = Expect<Equal<typeof ko, Failure<Error>>>
+    }
+
+    assertEquals([isSuccess(ok), isFailure(ok)], [true, false])
+    assertEquals([isSuccess(ko), isFailure(ko)], [false, true])
+  })
+
+  it('narrows down serialized results', () => {
+    const serialized = serialize(ko)
+    if (isFailure(serialized)) {
+      type _E = Expect<Equal<typeof serialized.errors, SerializableError[]>>
+    }
+
+    assertEquals(isFailure(serialized), true)
+  })
+})
+
+describe('match', () => {
+  it('calls the handler of the case of the result', () => {
+    const handlers = {
+      success: (n: number) => n + 1,
+      failure: (errors: Error[]) => errors[0].message,
+    }
+    const res = match(ok, handlers)
+
+    type _R = Expect<Equal<typeof res, number | string>>
+
+    assertEquals(res, 2)
+    assertEquals(match(ko, handlers), 'Oops')
+  })
+
+  it('works with serialized results', () => {
+    const res = match(serialize(ko), {
+      success: (n) => String(n),
+      failure: (errors) => errors.map((e) => e.name).join(),
+    })
+
+    assertEquals(res, 'Error')
+  })
+})
+
+describe('fold', () => {
+  it('reduces the result to a single value', () => {
+    assertEquals(fold(ok, (n) => n * 10, () => 0), 10)
+    assertEquals(fold(ko, (n) => n * 10, (errors) => errors.length), 1)
+  })
+})
+
+describe('unwrapOr', () => {
+  it('returns the data or the fallback', () => {
+    const res = unwrapOr(ko, null)
+
+    type _R = Expect<Equal<typeof res, number | null>>
+
+    assertEquals(res, null)
+    assertEquals(unwrapOr(ok, null), 1)
+  })
+})
+
+describe('mapResult', () => {
+  it('transforms the data of a successful result', () => {
+    const res = mapResult(ok, (n) => String(n))
+
+    type _R = Expect<Equal<typeof res, Result<string>>>
+
+    assertEquals(res, success('1'))
+  })
+
+  it('returns a failure unchanged', () => {
+    const serialized = serialize(ko)
+    const res = mapResult(serialized, (n) => n + 1)
+
+    type _R = Expect<Equal<typeof res, SerializableResult<number>>>
+
+    assertEquals(res, serialized)
+  })
+})
+
+describe('flatMapResult', () => {
+  it('transforms the data into another result', () => {
+    const res = flatMapResult(
+      ok,
+      (n): Result<string, InputError> =>
+        n > 0 ? success('positive') : failure([new InputError('Negative')]),
+    )
+
+    type _R = Expect<
+      Equal<typeof res, Success<string> | Failure<InputError> | Failure<Error>>
+    >
+
+    assertEquals(res, success('positive'))
+    assertEquals(
+      flatMapResult(ok, () => failure([new InputError('Negative')])),
+      failure([new InputError('Negative')]),
+    )
+  })
+
+  it('returns a failure unchanged', () => {
+    assertEquals(flatMapResult(ko, (n) => success(n + 1)), ko)
+  })
+})
+
+describe('zipResults', () => {
+  it('combines the data of successful results', () => {
+    const res = zipResults(ok, success('a') as Result<string>)
+
+    type _R = Expect<Equal<typeof res, Result<[number, string]>>>
+
+    assertEquals(res, success([1, 'a']))
+  })
+
+  it('fails with the errors of every failure', () => {
+    const res = zipResults(ko, success('a'), failure([new InputError('Bad')]))
+
+    assertEquals(res, failure([new Error('Oops'), new InputError('Bad')]))
+  })
+})
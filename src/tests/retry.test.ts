@@ -0,0 +1,161 @@
+import { assertEquals, assertThrows, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  AbortError,
+  composable,
+  failure,
+  InputError,
+  retry,
+  success,
+  withSignal,
+} from '../index.ts'
+
+function flaky(failures: number) {
+  let calls = 0
+  return composable((n: number) => {
+    calls++
+    if (calls <= failures) throw new Error(`attempt ${calls} failed`)
+    return n + 1
+  })
+}
+
+describe('retry', () => {
+  it('returns the result of the first successful attempt', async () => {
+    const fn = retry(flaky(2), { attempts: 3 })
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(n: number) => number>>>
+    type _R = Expect<Equal<typeof res, Result<number>>>
+
+    assertEquals(res, success(2))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = retry((n: number) => n + 1, { attempts: 2 })
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(n: number) => number>>>
+
+    assertEquals(res, success(2))
+  })
+
+  it('will enforce noImplicitAny', () => {
+    // @ts-expect-error: implicit any
+    const _fn = retry((a) => a, { attempts: 2 })
+  })
+
+  it('fails with the errors of every attempt when all attempts fail', async () => {
+    const fn = retry(flaky(5), { attempts: 3 })
+    const res = await fn(1)
+
+    assertEquals(
+      res,
+      failure([
+        new Error('attempt 1 failed'),
+        new Error('attempt 2 failed'),
+        new Error('attempt 3 failed'),
+      ]),
+    )
+  })
+
+  it('does not retry input errors by default', async () => {
+    let calls = 0
+    const fn = retry(
+      composable(() => {
+        calls++
+        throw new InputError('Required', ['id'])
+      }),
+      { attempts: 3 },
+    )
+    const res = await fn()
+
+    assertEquals(calls, 1)
+    assertEquals(res, failure([new InputError('Required', ['id'])]))
+  })
+
+  it('uses the given predicate to decide which failures are retried', async () => {
+    const attempts: number[] = []
+    const fn = retry(flaky(5), {
+      attempts: 5,
+      shouldRetry: (errors, attempt) => {
+        attempts.push(attempt)
+        return !errors[0].message.includes('2')
+      },
+    })
+    const res = await fn(1)
+
+    assertEquals(attempts, [1, 2])
+    assertEquals(
+      res,
+      failure([new Error('attempt 1 failed'), new Error('attempt 2 failed')]),
+    )
+  })
+
+  it('fails when the predicate fails', async () => {
+    const fn = retry(flaky(5), {
+      attempts: 3,
+      shouldRetry: () => {
+        throw new Error('predicate failed')
+      },
+    })
+    const res = await fn(1)
+
+    assertEquals(
+      res,
+      failure([new Error('attempt 1 failed'), new Error('predicate failed')]),
+    )
+  })
+
+  it('waits between attempts according to the backoff policy', async () => {
+    const start = Date.now()
+    const fn = retry(flaky(2), {
+      attempts: 3,
+      backoff: 'exponential',
+      delay: 20,
+    })
+    const res = await fn(1)
+
+    assertEquals(res, success(2))
+    assertEquals(Date.now() - start >= 60, true)
+  })
+
+  it('caps the delay with maxDelay', async () => {
+    const start = Date.now()
+    const fn = retry(flaky(3), {
+      attempts: 4,
+      backoff: 'jittered',
+      delay: 1000,
+      maxDelay: 10,
+    })
+    const res = await fn(1)
+
+    assertEquals(res, success(2))
+    assertEquals(Date.now() - start < 500, true)
+  })
+
+  it('throws when the attempts are not a positive integer', () => {
+    for (const attempts of [NaN, 0, -1, 1.5, undefined]) {
+      assertThrows(
+        () => retry(flaky(1), { attempts: attempts as number }),
+        RangeError,
+        'attempts must be a positive integer',
+      )
+    }
+  })
+
+  it('stops waiting when the signal is aborted during the delay', async () => {
+    const controller = new AbortController()
+    const fn = withSignal(
+      retry(flaky(5), { attempts: 3, delay: 500 }),
+      controller.signal,
+    )
+    setTimeout(() => controller.abort(), 10)
+    const start = Date.now()
+    const res = await fn(1)
+
+    assertEquals(Date.now() - start < 250, true)
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0], new Error('attempt 1 failed'))
+    assertEquals(res.errors.at(-1) instanceof AbortError, true)
+  })
+})
@@ -1,12 +1,21 @@
 import { assertEquals, describe, it } from './prelude.ts'
 import {
   ContextError,
+  deserialize,
+  deserializeError,
+  ErrorList,
   failure,
   InputError,
   serializeError,
+  serializeErrorJson,
+  serializeJson,
   success,
 } from '../index.ts'
-import type { SerializableError } from '../types.ts'
+import type {
+  JsonSerializableResult,
+  Result,
+  SerializableError,
+} from '../types.ts'
 import { serialize } from '../index.ts'
 import type { SerializableResult } from '../types.ts'
 
@@ -111,3 +120,339 @@ describe('serialize', () => {
     })
   })
 })
+
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+describe('deserializeError', () => {
+  it('rebuilds the library errors', () => {
+    const json = JSON.parse(
+      JSON.stringify(serializeError(new InputError('Oops!', ['foo']))),
+    )
+    const error = deserializeError(json)
+
+    assertEquals(error instanceof InputError, true)
+    assertEquals(error, new InputError('Oops!', ['foo']))
+  })
+
+  it('rebuilds the errors of the given registry', () => {
+    const error = deserializeError(
+      serializeError(new NotFoundError('Missing')),
+      { NotFoundError },
+    )
+
+    assertEquals(error instanceof NotFoundError, true)
+    assertEquals(error.message, 'Missing')
+  })
+
+  it('rebuilds unknown errors as Error keeping their name', () => {
+    const error = deserializeError(
+      { message: 'Oops!', name: 'toString', path: [] },
+    )
+
+    assertEquals(error instanceof Error, true)
+    assertEquals(error.name, 'toString')
+    assertEquals(error.message, 'Oops!')
+  })
+
+  it('rebuilds the list of an ErrorList', () => {
+    const json = JSON.parse(
+      JSON.stringify(
+        serializeError(new ErrorList([new ContextError('Oops!', ['user'])])),
+      ),
+    )
+    const error = deserializeError(json)
+
+    assertEquals(error instanceof ErrorList, true)
+    assertEquals((error as ErrorList).list[0] instanceof ContextError, true)
+    assertEquals((error as ErrorList).list[0].name, 'ContextError')
+  })
+})
+
+describe('deserialize', () => {
+  it('returns a successful result unchanged', () => {
+    const result = deserialize(serialize(success('Hello!')))
+    type _T = Expect<Equal<typeof result, Result<'Hello!'>>>
+
+    assertEquals(result, success('Hello!'))
+  })
+
+  it('rebuilds the errors of a failed result after JSON', () => {
+    const json = JSON.parse(
+      JSON.stringify(
+        serialize(
+          failure([
+            new InputError('Required', ['name']),
+            new NotFoundError('Missing'),
+          ]),
+        ),
+      ),
+    )
+    const result = deserialize(json, { NotFoundError })
+
+    assertEquals(
+      result,
+      failure([
+        new InputError('Required', ['name']),
+        new NotFoundError('Missing'),
+      ]),
+    )
+    assertEquals(
+      !result.success && result.errors[1] instanceof NotFoundError,
+      true,
+    )
+  })
+})
+
+describe('serializeErrorJson', () => {
+  it('omits the exception and the stack', () => {
+    const result = serializeErrorJson(new InputError('Oops!', ['foo']))
+
+    assertEquals(result, {
+      message: 'Oops!',
+      name: 'InputError',
+      path: ['foo'],
+    })
+  })
+
+  it('keeps the stack when asked to', () => {
+    const error = new Error('Oops!')
+    const result = serializeErrorJson(error, { stack: true })
+
+    assertEquals(result.stack, error.stack)
+  })
+
+  it('keeps the other properties redacting the given names at any depth', () => {
+    class RequestError extends Error {
+      constructor(
+        message: string,
+        public token: string,
+        public request: { url: string; headers: Record<string, string> },
+      ) {
+        super(message)
+        this.name = 'RequestError'
+      }
+    }
+    const error = new RequestError('Oops!', 'secret', {
+      url: '/users',
+      headers: { authorization: 'Bearer secret' },
+    })
+    const result = serializeErrorJson(error, {
+      redact: ['token', 'authorization'],
+    })
+
+    assertEquals(result, {
+      message: 'Oops!',
+      name: 'RequestError',
+      path: [],
+      properties: {
+        token: '[REDACTED]',
+        request: {
+          url: '/users',
+          headers: { authorization: '[REDACTED]' },
+        },
+      },
+    })
+  })
+
+  it('round-trips values without a JSON representation', () => {
+    const error = Object.assign(new Error('Oops!'), {
+      amount: 10n,
+      at: new Date('2024-01-01T00:00:00.000Z'),
+      ratio: NaN,
+      callback: () => {},
+      nested: {} as Record<string, unknown>,
+    })
+    error.nested.self = error.nested
+    const result = serializeErrorJson(error)
+
+    assertEquals(JSON.parse(JSON.stringify(result)), result)
+    assertEquals(result.properties, {
+      amount: '10',
+      at: '2024-01-01T00:00:00.000Z',
+      ratio: null,
+      nested: { self: '[Circular]' },
+    })
+  })
+})
+
+describe('serializeJson', () => {
+  it('returns a successful result unchanged', () => {
+    assertEquals(serializeJson(success('Hello!')), success('Hello!'))
+  })
+
+  it('converts the data of a successful result to a JSON value', () => {
+    const user: Result<{
+      id: bigint
+      createdAt: Date
+      password: string
+      url: URL
+      tags: (bigint | undefined)[]
+      toString: () => string
+    }> = success({
+      id: 1n,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      password: 'secret',
+      url: new URL('https://example.com/users/1'),
+      tags: [1n, undefined],
+      toString: () => 'user',
+    })
+    const result = serializeJson(user)
+
+    type _T = Expect<
+      Equal<
+        typeof result,
+        JsonSerializableResult<{
+          id: bigint
+          createdAt: Date
+          password: string
+          url: URL
+          tags: (bigint | undefined)[]
+          toString: () => string
+        }>
+      >
+    >
+    if (result.success) {
+      type _D = Expect<
+        Equal<
+          typeof result.data,
+          {
+            id: string
+            createdAt: string
+            password: string
+            url: string
+            tags: (string | null)[]
+          }
+        >
+      >
+    }
+    assertEquals(
+      result,
+      success({
+        id: '1',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        password: 'secret',
+        url: 'https://example.com/users/1',
+        tags: ['1', null],
+      }),
+    )
+    assertEquals(JSON.parse(JSON.stringify(result)), result)
+  })
+
+  it('converts undefined data to null', () => {
+    assertEquals(serializeJson(success(undefined)), success(null))
+  })
+
+  it('serializes the errors of a failed result', () => {
+    const result = serializeJson(
+      failure([new Error('Oops!'), new ContextError('Required', ['user'])]),
+    )
+
+    assertEquals(JSON.parse(JSON.stringify(result)), {
+      success: false,
+      errors: [
+        { message: 'Oops!', name: 'Error', path: [] },
+        { message: 'Required', name: 'ContextError', path: ['user'] },
+      ],
+    })
+    assertEquals(
+      deserialize(result),
+      failure([new Error('Oops!'), new ContextError('Required', ['user'])]),
+    )
+  })
+})
+
+describe('cause chains', () => {
+  const chain = () =>
+    new Error('failed to create order', {
+      cause: new Error('failed to charge card', {
+        cause: new InputError('402 from gateway', ['card']),
+      }),
+    })
+
+  it('serializes the cause of an error as a nested tree', () => {
+    const error = chain()
+    const result = serializeError(error)
+
+    assertEquals(result.message, 'failed to create order')
+    assertEquals(result.cause?.message, 'failed to charge card')
+    assertEquals(result.cause?.cause, {
+      exception: (error.cause as Error).cause as Error,
+      message: '402 from gateway',
+      name: 'InputError',
+      path: ['card'],
+    })
+  })
+
+  it('serializes the errors of an AggregateError and an ErrorList', () => {
+    const result = serializeErrorJson(
+      new AggregateError(
+        [new Error('a'), new ErrorList([new InputError('b', ['c'])])],
+        'Many errors',
+      ),
+    )
+
+    assertEquals(result, {
+      message: 'Many errors',
+      name: 'AggregateError',
+      path: [],
+      errors: [
+        { message: 'a', name: 'Error', path: [] },
+        {
+          message: 'ErrorList',
+          name: 'ErrorList',
+          path: [],
+          errors: [{ message: 'b', name: 'InputError', path: ['c'] }],
+        },
+      ],
+    })
+  })
+
+  it('serializes causes that are not errors', () => {
+    const result = serializeErrorJson(
+      new Error('Oops!', { cause: { status: 402 } }),
+    )
+
+    assertEquals(result.cause, {
+      message: '{"status":402}',
+      name: 'Error',
+      path: [],
+    })
+  })
+
+  it('stops on circular causes', () => {
+    const error = new Error('Oops!')
+    error.cause = new Error('Cause', { cause: error })
+    const result = serializeErrorJson(error)
+
+    assertEquals(result, {
+      message: 'Oops!',
+      name: 'Error',
+      path: [],
+      cause: { message: 'Cause', name: 'Error', path: [] },
+    })
+  })
+
+  it('rebuilds the cause chain when deserializing', () => {
+    const result = deserialize(
+      JSON.parse(JSON.stringify(serializeJson(failure([chain()])))),
+    )
+
+    assertEquals(result, failure([chain()]))
+    const [error] = result.errors
+    assertEquals((error.cause as Error).cause instanceof InputError, true)
+  })
+
+  it('rebuilds the errors of an AggregateError', () => {
+    const error = deserializeError(
+      serializeErrorJson(new AggregateError([new InputError('a')], 'Many')),
+    )
+
+    assertEquals(error instanceof AggregateError, true)
+    assertEquals((error as AggregateError).errors, [new InputError('a')])
+  })
+})
@@ -0,0 +1,84 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  composable,
+  failure,
+  pipe,
+  serialize,
+  success,
+  timeout,
+  TimeoutError,
+} from '../index.ts'
+
+const increment = composable((n: number) => n + 1)
+const neverEnding = composable((_n: number) => new Promise<number>(() => {}))
+
+describe('timeout', () => {
+  it('returns the result when the function finishes in time', async () => {
+    const fn = timeout(increment, 50)
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(n: number) => number>>>
+    type _R = Expect<Equal<typeof res, Result<number>>>
+
+    assertEquals(res, success(2))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = timeout((n: number) => n + 1, 50)
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(n: number) => number>>>
+
+    assertEquals(res, success(2))
+  })
+
+  it('will enforce noImplicitAny', () => {
+    // @ts-expect-error: implicit any
+    const _fn = timeout((a) => a, 50)
+  })
+
+  it('fails with a TimeoutError when the function takes too long', async () => {
+    const fn = timeout(neverEnding, 10)
+    const res = await fn(1)
+
+    assertEquals(res, failure([new TimeoutError('Timed out after 10ms')]))
+    assertEquals(res.errors[0] instanceof TimeoutError, true)
+  })
+
+  it('returns the failure of the function when it fails in time', async () => {
+    const fn = timeout(() => {
+      throw new Error('Oops!')
+    }, 50)
+    const res = await fn()
+
+    assertEquals(res, failure([new Error('Oops!')]))
+  })
+
+  it('keeps the error name when serialized', async () => {
+    const fn = timeout(neverEnding, 10)
+    const res = serialize(await fn(1))
+
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0].name, 'TimeoutError')
+    assertEquals(res.errors[0].message, 'Timed out after 10ms')
+  })
+
+  it('skips the remaining steps of the function once the time is up', async () => {
+    const calls: number[] = []
+    const slow = (n: number) =>
+      new Promise<number>((resolve) => setTimeout(() => resolve(n), 30))
+    const fn = timeout(
+      pipe(slow, (n: number) => {
+        calls.push(n)
+        return n
+      }),
+      10,
+    )
+    const res = await fn(1)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    assertEquals(res, failure([new TimeoutError('Timed out after 10ms')]))
+    assertEquals(calls, [])
+  })
+})
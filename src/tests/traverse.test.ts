@@ -0,0 +1,156 @@
+import { assertEquals, assertThrows, describe, it, z } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  applySchema,
+  composable,
+  failure,
+  InputError,
+  success,
+  traverse,
+} from '../index.ts'
+
+const double = composable((n: number) => n * 2)
+
+describe('traverse', () => {
+  it('runs the composable for every item returning a list with every result', async () => {
+    const fn = traverse(double)
+    const res = await fn([1, 2, 3])
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(items: number[]) => number[]>>
+    >
+    type _R = Expect<Equal<typeof res, Result<number[]>>>
+
+    assertEquals(res, success([2, 4, 6]))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = traverse(({ id }: { id: number }) => String(id))
+    const res = await fn([{ id: 1 }, { id: 2 }])
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(items: { id: number }[]) => string[]>>
+    >
+
+    assertEquals(res, success(['1', '2']))
+  })
+
+  it('will enforce noImplicitAny', () => {
+    // @ts-expect-error: implicit any
+    const _fn = traverse((a) => a)
+  })
+
+  it('passes the other parameters unchanged to every call', async () => {
+    const fn = traverse((n: number, ctx: { factor: number }) => n * ctx.factor)
+    const res = await fn([1, 2], { factor: 3 })
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<(items: number[], ctx: { factor: number }) => number[]>
+      >
+    >
+
+    assertEquals(res, success([3, 6]))
+  })
+
+  it('returns an empty list for an empty input', async () => {
+    assertEquals(await traverse(double)([]), success([]))
+  })
+
+  it('runs the items sequentially when concurrency is 1', async () => {
+    const order: number[] = []
+    const fn = traverse(async (n: number) => {
+      await new Promise((resolve) => setTimeout(resolve, 10 - n * 3))
+      order.push(n)
+    }, { concurrency: 1 })
+    await fn([1, 2, 3])
+
+    assertEquals(order, [1, 2, 3])
+  })
+
+  it('stops after the first failure when failFast is set', async () => {
+    const calls: number[] = []
+    const fn = traverse((n: number) => {
+      calls.push(n)
+      if (n === 2) throw new Error('Oops!')
+      return n
+    }, { concurrency: 1, failFast: true })
+    const res = await fn([1, 2, 3])
+
+    assertEquals(calls, [1, 2])
+    assertEquals(res, failure([new Error('Oops!')]))
+  })
+
+  it('prefixes the path of input errors with the index of the item', async () => {
+    const fn = traverse(
+      applySchema(z.object({ name: z.string() }))(({ name }) => name),
+    )
+    const res = await fn([{ name: 'a' }, { name: 1 }, {}])
+
+    assertEquals(res.success, false)
+    assertEquals(
+      res.errors.map((error) => (error as InputError).path),
+      [['1', 'name'], ['2', 'name']],
+    )
+  })
+
+  it('keeps errors without path unchanged', async () => {
+    const fn = traverse((n: number) => {
+      if (n > 1) throw new Error(`${n} is too big`)
+      return n
+    })
+    const res = await fn([1, 2, 3])
+
+    assertEquals(
+      res,
+      failure([new Error('2 is too big'), new Error('3 is too big')]),
+    )
+  })
+
+  it('keeps the InputError class when prefixing the path', async () => {
+    const fn = traverse(() => {
+      throw new InputError('Required', ['id'])
+    })
+    const res = await fn([undefined])
+
+    assertEquals(res, failure([new InputError('Required', ['0', 'id'])]))
+  })
+
+  it('keeps the class and the cause of the errors when prefixing the path', async () => {
+    class RequiredError extends InputError {}
+    const cause = new Error('Missing id')
+    const original = new RequiredError('Required', ['id'])
+    original.cause = cause
+    const fn = traverse(() => {
+      throw original
+    })
+    const res = await fn([undefined])
+
+    const [error] = res.errors as InputError[]
+    assertEquals(error instanceof RequiredError, true)
+    assertEquals(error.path, ['0', 'id'])
+    assertEquals(error.cause, cause)
+    assertEquals(error.stack, original.stack)
+    assertEquals(original.path, ['id'])
+  })
+
+  it('fails when the items are not a list', async () => {
+    const fn = traverse(double)
+    // @ts-expect-error: the items must be a list
+    const res = await fn({ length: 1 })
+
+    assertEquals(
+      res,
+      failure([new InputError('Expected a list of items', [])]),
+    )
+  })
+
+  it('throws when the concurrency is not a positive integer or Infinity', () => {
+    assertThrows(
+      () => traverse(double, { concurrency: NaN }),
+      RangeError,
+      'concurrency must be a positive integer or Infinity',
+    )
+  })
+})
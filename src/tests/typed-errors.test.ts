@@ -0,0 +1,233 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type {
+  Composable,
+  Result,
+  TimeoutError,
+  UnpackErrors,
+} from '../index.ts'
+import {
+  AbortError,
+  all,
+  catchFailure,
+  composable,
+  failure,
+  InputError,
+  mapErrors,
+  pipe,
+  success,
+  timeout,
+  typedComposable,
+  withSignal,
+} from '../index.ts'
+
+class NotFoundError extends Error {
+  override readonly name = 'NotFoundError'
+}
+
+class ForbiddenError extends Error {
+  override readonly name = 'ForbiddenError'
+}
+
+const getUser = typedComposable(
+  (id: number) => {
+    if (id < 0) throw new InputError('Invalid id', ['id'])
+    if (id === 0) throw new NotFoundError('User not found')
+    return { id, name: 'John' }
+  },
+  (error) =>
+    error instanceof InputError ? error : new NotFoundError(error.message),
+)
+
+const authorize = typedComposable(
+  (user: { id: number; name: string }) => {
+    if (user.id > 10) throw new ForbiddenError('Not allowed')
+    return user.name
+  },
+  (error) => new ForbiddenError(error.message),
+)
+
+describe('typed errors', () => {
+  it('narrows down the errors of a Result', async () => {
+    const res = await getUser(0)
+
+    type _FN = Expect<
+      Equal<
+        typeof getUser,
+        Composable<
+          (id: number) => { id: number; name: string },
+          InputError | NotFoundError
+        >
+      >
+    >
+    type _R = Expect<
+      Equal<
+        typeof res,
+        Result<
+          { id: number; name: string },
+          NotFoundError | InputError | AbortError
+        >
+      >
+    >
+    type _E = Expect<
+      Equal<
+        UnpackErrors<typeof getUser>,
+        NotFoundError | InputError | AbortError
+      >
+    >
+
+    assertEquals(res, failure([new NotFoundError('User not found')]))
+  })
+
+  it('turns unknown errors into known errors with typedComposable', async () => {
+    const fn = typedComposable(
+      (id: number) => {
+        if (id > 0) throw 'Something went wrong'
+        return id
+      },
+      (error) => new NotFoundError(error.message),
+    )
+
+    assertEquals(
+      await fn(1),
+      failure([new NotFoundError('"Something went wrong"')]),
+    )
+    assertEquals(await fn(0), success(0))
+  })
+
+  it('keeps the AbortError of an aborted signal', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const res = await withSignal(getUser, controller.signal)(1)
+
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+
+  it('adds the TimeoutError of timeout', async () => {
+    const fn = timeout(getUser, 100)
+
+    type _E = Expect<
+      Equal<
+        UnpackErrors<typeof fn>,
+        NotFoundError | InputError | TimeoutError | AbortError
+      >
+    >
+
+    assertEquals(await fn(1), success({ id: 1, name: 'John' }))
+  })
+
+  it('defaults to Error when the errors are not known', async () => {
+    const fn = composable((id: number) => id)
+    const res = await fn(1)
+
+    type _R = Expect<Equal<typeof res, Result<number>>>
+    type _E = Expect<Equal<UnpackErrors<typeof fn>, Error>>
+
+    assertEquals(res, success(1))
+  })
+
+  it('joins the errors of sequential compositions', async () => {
+    const fn = pipe(getUser, authorize)
+    const res = await fn(11)
+
+    type _E = Expect<
+      Equal<
+        UnpackErrors<typeof fn>,
+        NotFoundError | InputError | ForbiddenError | AbortError
+      >
+    >
+
+    assertEquals(res, failure([new ForbiddenError('Not allowed')]))
+  })
+
+  it('joins the errors of parallel compositions', async () => {
+    const fn = all(getUser, composable(() => 'ok'))
+
+    type _E = Expect<Equal<UnpackErrors<typeof fn>, Error>>
+
+    const getRole = typedComposable((id: number) => {
+      if (id > 10) throw new ForbiddenError('Not allowed')
+      return 'admin'
+    }, (error) => new ForbiddenError(error.message))
+    const typed = all(getUser, getRole)
+    type _T = Expect<
+      Equal<
+        UnpackErrors<typeof typed>,
+        NotFoundError | InputError | ForbiddenError | AbortError
+      >
+    >
+
+    assertEquals(await fn(1), success([{ id: 1, name: 'John' }, 'ok']))
+  })
+
+  it('gives the catcher of catchFailure the typed errors', async () => {
+    const fn = catchFailure(getUser, (errors) => {
+      type _E = Expect<
+        Equal<typeof errors, (NotFoundError | InputError | AbortError)[]>
+      >
+      if (errors.some((e) => e instanceof NotFoundError)) return null
+      throw errors[0]
+    })
+    const res = await fn(0)
+
+    type _FN = Expect<
+      Equal<
+        typeof fn,
+        Composable<(id: number) => { id: number; name: string } | null>
+      >
+    >
+
+    assertEquals(res, success(null))
+    assertEquals(
+      await fn(-1),
+      failure([new InputError('Invalid id', ['id'])]),
+    )
+  })
+
+  it('narrows down the errors with a typed catcher', async () => {
+    const handleNotFound = typedComposable(
+      (errors: (NotFoundError | InputError | AbortError)[]) => {
+        if (errors.some((e) => e instanceof NotFoundError)) return null
+        throw errors[0]
+      },
+      (error) =>
+        error instanceof InputError ? error : new InputError(error.message),
+    )
+    const fn = catchFailure(getUser, handleNotFound)
+
+    type _E = Expect<Equal<UnpackErrors<typeof fn>, InputError | AbortError>>
+
+    assertEquals(await fn(0), success(null))
+    assertEquals(
+      await fn(-1),
+      failure([new InputError('Invalid id', ['id'])]),
+    )
+  })
+
+  it('maps the errors to a new error type with a typed mapper', async () => {
+    const toInputErrors = typedComposable(
+      (errors: (NotFoundError | InputError | AbortError)[]) =>
+        errors.map((e) =>
+          e instanceof InputError ? e : new InputError(e.message, ['id'])
+        ),
+      (error) => new InputError(error.message),
+    )
+    const fn = mapErrors(getUser, toInputErrors)
+    const res = await fn(0)
+
+    type _E = Expect<Equal<UnpackErrors<typeof fn>, InputError | AbortError>>
+
+    assertEquals(res, failure([new InputError('User not found', ['id'])]))
+  })
+
+  it('includes the errors a plain mapper may throw', async () => {
+    const fn = mapErrors(getUser, () => {
+      throw new Error('Mapper failed')
+    })
+    const res = await fn(0)
+
+    type _E = Expect<Equal<UnpackErrors<typeof fn>, Error>>
+
+    assertEquals(res, failure([new Error('Mapper failed')]))
+  })
+})
@@ -0,0 +1,220 @@
+import { assertEquals, describe, it } from './prelude.ts'
+import type { Composable, Result } from '../index.ts'
+import {
+  abortable,
+  AbortError,
+  all,
+  branch,
+  collect,
+  composable,
+  failure,
+  fromSuccess,
+  map,
+  pipe,
+  sequence,
+  success,
+  withContext,
+  withSignal,
+} from '../index.ts'
+
+function track() {
+  const calls: string[] = []
+  const step = (name: string, onCall?: () => void) =>
+    composable((n: number) => {
+      calls.push(name)
+      onCall?.()
+      return n + 1
+    })
+  return { calls, step }
+}
+
+describe('withSignal', () => {
+  it('runs the composable normally when the signal is not aborted', async () => {
+    const { step } = track()
+    const fn = withSignal(
+      pipe(step('a'), step('b')),
+      new AbortController().signal,
+    )
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(n: number) => number>>>
+    type _R = Expect<Equal<typeof res, Result<number>>>
+
+    assertEquals(res, success(3))
+  })
+
+  it('accepts plain functions', async () => {
+    const fn = withSignal((n: number) => n + 1, new AbortController().signal)
+    const res = await fn(1)
+
+    type _FN = Expect<Equal<typeof fn, Composable<(n: number) => number>>>
+
+    assertEquals(res, success(2))
+  })
+
+  it('fails with an AbortError without running when the signal is already aborted', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    controller.abort(new Error('User navigated away'))
+    const res = await withSignal(step('a'), controller.signal)(1)
+
+    assertEquals(calls, [])
+    assertEquals(res, failure([new AbortError('User navigated away')]))
+  })
+
+  it('skips the remaining steps of a sequence once aborted', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    const fn = sequence(
+      step('a'),
+      step('b', () => controller.abort()),
+      step('c'),
+    )
+    const res = await withSignal(fn, controller.signal)(1)
+
+    assertEquals(calls, ['a', 'b'])
+    assertEquals(res.success, false)
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+
+  it('forwards the signal to nested compositions', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    const fn = pipe(
+      step('a'),
+      map(step('b', () => controller.abort()), (n) => n),
+      pipe(step('c'), step('d')),
+    )
+    const res = await withSignal(fn, controller.signal)(1)
+
+    assertEquals(calls, ['a', 'b'])
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+
+  it('forwards the signal to every function of all and collect', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    controller.abort()
+    const res = await withSignal(
+      all(step('a'), collect({ b: step('b'), c: step('c') })),
+      controller.signal,
+    )(1)
+
+    assertEquals(calls, [])
+    assertEquals(res.errors.length, 3)
+    assertEquals(res.errors.every((e) => e instanceof AbortError), true)
+  })
+
+  it('does not run the branch chosen by the resolver once aborted', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    const fn = branch(step('a'), () => {
+      controller.abort()
+      return step('b')
+    })
+    const res = await withSignal(fn, controller.signal)(1)
+
+    assertEquals(calls, ['a'])
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+
+  it('forwards the signal through withContext compositions', async () => {
+    const calls: string[] = []
+    const controller = new AbortController()
+    const a = (n: number, ctx: { abort: boolean }) => {
+      calls.push('a')
+      if (ctx.abort) controller.abort()
+      return n + 1
+    }
+    const b = (n: number) => {
+      calls.push('b')
+      return n + 1
+    }
+    const fn = withContext.sequence(
+      withContext.pipe(a, b),
+      withContext.branch(b, () => b),
+    )
+    const res = await withSignal(fn, controller.signal)(1, { abort: true })
+
+    assertEquals(calls, ['a'])
+    assertEquals(res.errors[0] instanceof AbortError, true)
+
+    const res2 = await withSignal(fn, new AbortController().signal)(1, {
+      abort: false,
+    })
+    assertEquals(res2, success([3, 5]))
+  })
+})
+
+describe('run', () => {
+  it('calls the composable with the given signal', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    const fn = pipe(step('a', () => controller.abort()), step('b'))
+    const res = await fn.run(controller.signal, 1)
+
+    type _R = Expect<Equal<typeof res, Result<number>>>
+
+    assertEquals(calls, ['a'])
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+
+  it('keeps the signal bound with withSignal', async () => {
+    const { calls, step } = track()
+    const outer = new AbortController()
+    const bound = new AbortController()
+    const fn = withSignal(
+      pipe(step('a', () => bound.abort()), step('b')),
+      bound.signal,
+    )
+    const res = await fn.run(outer.signal, 1)
+
+    assertEquals(calls, ['a'])
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+})
+
+describe('abortable', () => {
+  it('gives the signal the composable was called with to the function', async () => {
+    const controller = new AbortController()
+    const fn = abortable(
+      (signal, n: number) =>
+        new Promise<number>((resolve, reject) => {
+          const timer = setTimeout(() => resolve(n), 1000)
+          signal.addEventListener('abort', () => {
+            clearTimeout(timer)
+            reject(signal.reason)
+          })
+        }),
+    )
+    const promise = withSignal(fn, controller.signal)(1)
+    controller.abort(new Error('User navigated away'))
+    const res = await promise
+
+    type _FN = Expect<
+      Equal<typeof fn, Composable<(n: number) => Promise<number>>>
+    >
+
+    assertEquals(res, failure([new Error('User navigated away')]))
+  })
+
+  it('gives a signal that is never aborted when called without one', async () => {
+    const fn = abortable((signal, n: number) => signal.aborted ? 0 : n)
+
+    assertEquals(await fn(1), success(1))
+  })
+
+  it('forwards the signal to the composables called with fromSuccess', async () => {
+    const { calls, step } = track()
+    const controller = new AbortController()
+    const fn = abortable(async (signal, n: number) => {
+      const a = await fromSuccess(withSignal(step('a'), signal))(n)
+      controller.abort()
+      return fromSuccess(withSignal(step('b'), signal))(a)
+    })
+    const res = await withSignal(fn, controller.signal)(1)
+
+    assertEquals(calls, ['a'])
+    assertEquals(res.errors[0] instanceof AbortError, true)
+  })
+})
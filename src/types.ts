@@ -1,12 +1,14 @@
+import type { AbortError } from './errors.ts'
 import type { Internal } from './internal/types.ts'
 
 /**
  * The failure case of a Result.
  * It has a list of Errors.
+ * The generic E can be used to narrow down the kinds of errors it may contain.
  */
-type Failure = {
+type Failure<E extends Error = Error> = {
   success: false
-  errors: Array<Error>
+  errors: Array<E>
 }
 
 /**
@@ -22,8 +24,9 @@ type Success<T = void> = {
 
 /**
  * The output of a computation that might fail.
+ * The optional generic E narrows down the kinds of errors of the Failure case.
  */
-type Result<T = void> = Success<T> | Failure
+type Result<T = void, E extends Error = Error> = Success<T> | Failure<E>
 
 /**
  * Merges the data types of a list of objects.
@@ -43,23 +46,42 @@ type MergeObjects<Objs extends unknown[], output = {}> = Objs extends [
 
 /**
  * A composable async function that catches failures.
+ * Besides the errors in E, it may fail with an AbortError once the signal it was called with is aborted.
  * We only use this type to make the Composable type neater looking, use `Composable` instead.
  * It does not need to be exported by the library.
  */
-type ComposableFunction<T extends Internal.AnyFn = Internal.AnyFn> = {
+type ComposableFunction<
+  T extends Internal.AnyFn = Internal.AnyFn,
+  E extends Error = Error,
+> = {
   (
     ...args: Parameters<T>
-  ): Promise<Result<Awaited<ReturnType<T>>>>
+  ): Promise<
+    Result<Awaited<ReturnType<T>>, Internal.NormalizeErrors<E | AbortError>>
+  >
+  /**
+   * Calls the composable with an AbortSignal, which is forwarded to every step it composes.
+   */
+  run(
+    signal: AbortSignal | undefined,
+    ...args: Parameters<T>
+  ): Promise<
+    Result<Awaited<ReturnType<T>>, Internal.NormalizeErrors<E | AbortError>>
+  >
   kind: 'composable'
 }
 
 /**
  * A composable async function that catches failures.
+ * The optional generic E narrows down the kinds of errors it may fail with, besides the AbortError every composable may fail with.
  */
-type Composable<T extends Internal.AnyFn = Internal.AnyFn> = T extends {
+type Composable<
+  T extends Internal.AnyFn = Internal.AnyFn,
+  E extends Error = Error,
+> = T extends {
   kind: 'composable'
 } ? T
-  : ComposableFunction<T>
+  : ComposableFunction<T, E>
 /**
  * A composable async function with schema validation at runtime.
  */
@@ -75,6 +97,14 @@ type UnpackData<T extends Composable> = Extract<
   { success: true }
 >['data']
 
+/**
+ * Extract the type of the errors a Composable may fail with.
+ */
+type UnpackErrors<T extends Composable> = Extract<
+  Awaited<ReturnType<T>>,
+  { success: false }
+>['errors'][number]
+
 /**
  * Extracts the types of successful data returned by multiple Composables.
  */
@@ -87,21 +117,22 @@ type UnpackAll<List extends Composable[]> = {
  * The return type is a tuple with all results on the success data.
  * This type can resolve to a FailToCompose when the composition won't type-check.
  */
-type SequenceReturn<Fns extends unknown[]> = Fns extends [
-  Composable<(...args: infer P) => any>,
-  ...any,
-] ? Composable<(...args: P) => UnpackAll<Fns>>
-  : Fns
+type SequenceReturn<Fns extends unknown[], E extends Error = Error> =
+  Fns extends [
+    Composable<(...args: infer P) => any>,
+    ...any,
+  ] ? Composable<(...args: P) => UnpackAll<Fns>, E>
+    : Fns
 
 /**
  * A Composable that represents the sequential execution of multiple Composables.
  * The return type is the success data of the last function in the chain.
  * This type can resolve to a FailToCompose when the composition won't type-check.
  */
-type PipeReturn<Fns extends unknown[]> = Fns extends [
+type PipeReturn<Fns extends unknown[], E extends Error = Error> = Fns extends [
   Composable<(...args: infer P) => any>,
   ...any,
-] ? Composable<(...args: P) => UnpackData<Extract<Last<Fns>, Composable>>>
+] ? Composable<(...args: P) => UnpackData<Extract<Last<Fns>, Composable>>, E>
   : Fns
 
 /**
@@ -161,8 +192,48 @@ type SerializableError = {
   message: string
   name: string
   path: string[]
+  /**
+   * The serialized cause of the error. Only present when it has one.
+   */
+  cause?: SerializableError
+  /**
+   * The serialized errors of an `AggregateError` or an `ErrorList`.
+   */
+  errors?: SerializableError[]
 }
 
+/**
+ * A serialized error that can be rebuilt by `deserializeError`, even after it went through `JSON.stringify`.
+ */
+type DeserializableError = {
+  exception?: unknown
+  message: string
+  name: string
+  path: string[]
+  cause?: DeserializableError
+  errors?: DeserializableError[]
+}
+
+/**
+ * The messages of the errors grouped by the dot-separated paths of the fields.
+ * The messages that don't belong to a field are grouped in `_global`.
+ */
+type FieldErrorMap = { _global: string[] } & Record<string, string[]>
+
+/**
+ * The messages of the errors grouped in an object shaped like the input.
+ * The messages that don't belong to a field are grouped in `_global` at the root.
+ */
+type NestedFieldErrors = { [key: string]: string[] | NestedFieldErrors }
+
+/**
+ * A map of error names to the error classes used to rebuild them when deserializing.
+ */
+type ErrorRegistry = Record<
+  string,
+  new (message: string, path: string[]) => Error
+>
+
 /**
  * The serializable output of a Result.
  */
@@ -170,6 +241,122 @@ type SerializableResult<T> =
   | Success<T>
   | { success: false; errors: SerializableError[] }
 
+/**
+ * A value that survives a round-trip through `JSON.stringify` and `JSON.parse`.
+ */
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
+/**
+ * The JSON representation of a value of type T, as converted by `serializeJson` and `JSON.stringify`: values with a `toJSON` method - such as dates - are replaced by its output, BigInts become strings and functions are dropped.
+ */
+type Jsonify<T> = 0 extends 1 & T ? any
+  : T extends { toJSON(...args: any[]): infer J } ? Jsonify<J>
+  : T extends bigint ? string
+  : T extends string | number | boolean | null | undefined ? T
+  : T extends Function | symbol ? undefined
+  : T extends readonly unknown[] ? {
+      [K in keyof T]: undefined extends Jsonify<T[K]>
+        ? Exclude<Jsonify<T[K]>, undefined> | null
+        : Jsonify<T[K]>
+    }
+  : {
+    [K in keyof T as T[K] extends Function | symbol ? never : K]: Jsonify<
+      T[K]
+    >
+  }
+
+/**
+ * A serializable error object without the original exception, safe to be sent to the browser.
+ */
+type JsonSerializableError = {
+  message: string
+  name: string
+  path: string[]
+  /**
+   * Only present when the stack is explicitly kept.
+   */
+  stack?: string
+  /**
+   * The other own properties of the error. Only present when there are any.
+   */
+  properties?: Record<string, JsonValue>
+  /**
+   * The serialized cause of the error. Only present when it has one.
+   */
+  cause?: JsonSerializableError
+  /**
+   * The serialized errors of an `AggregateError` or an `ErrorList`.
+   */
+  errors?: JsonSerializableError[]
+}
+
+/**
+ * The output of a Result of type T that is safe to be sent through `JSON.stringify`. The data is converted to its JSON representation.
+ */
+type JsonSerializableResult<T = unknown> =
+  | Success<
+    undefined extends Jsonify<T> ? Exclude<Jsonify<T>, undefined> | null
+      : Jsonify<T>
+  >
+  | { success: false; errors: JsonSerializableError[] }
+
+/**
+ * A custom type to be tagged by `encodeData` and revived by `decodeData`.
+ */
+type DataType<T = any> = {
+  /**
+   * Tells whether a value is of this type.
+   */
+  is: (value: unknown) => value is T
+  /**
+   * Converts a value of this type to data that can be encoded.
+   */
+  encode: (value: T) => unknown
+  /**
+   * Revives a value of this type out of the decoded data.
+   */
+  decode: (data: any) => T
+}
+
+/**
+ * A map of names to the custom types to be encoded and decoded.
+ */
+type DataTypeRegistry = Record<string, DataType>
+
+/**
+ * The JSON value of some data encoded by `encodeData`.
+ * It keeps the type of the original data so it can be inferred when decoding.
+ */
+type EncodedData<T> = JsonValue & { readonly '~data'?: T }
+
+/**
+ * The output of `encodeResult`, which is safe to be sent through `JSON.stringify`.
+ */
+type EncodedResult<T> =
+  | Success<EncodedData<T>>
+  | { success: false; errors: JsonSerializableError[] }
+
+/**
+ * The options of the JSON-safe serializers.
+ */
+type JsonSerializeOptions = {
+  /**
+   * Keeps the stack of the errors. It should only be enabled in development.
+   * @default false
+   */
+  stack?: boolean
+  /**
+   * The names of the error properties to be replaced by `'[REDACTED]'`, at any depth.
+   */
+  redact?: string[]
+}
+
 /**
  * Returns the last element of a tuple type.
  */
@@ -239,6 +426,78 @@ type MapParametersReturn<
   ) => Internal.IsNever<O> extends true ? never : UnpackData<Fn>
 >
 
+/**
+ * The options to configure how `allWith` and `collectWith` run their functions.
+ */
+type ParallelOptions = {
+  /**
+   * The maximum number of functions running at the same time, a positive integer or Infinity.
+   * @default Infinity
+   */
+  concurrency?: number
+  /**
+   * When true, no new functions are started after the first Failure.
+   * @default false
+   */
+  failFast?: boolean
+}
+
+/**
+ * The options to configure how `retry` will re-invoke a failing Composable.
+ */
+type RetryPolicy = {
+  /**
+   * The maximum number of times the composable will be called, including the first call.
+   */
+  attempts: number
+  /**
+   * How the delay between attempts grows:
+   * - `fixed` waits `delay` ms before every attempt
+   * - `exponential` doubles the delay after every attempt
+   * - `jittered` waits a random amount between 0 and the exponential delay
+   * @default 'fixed'
+   */
+  backoff?: 'fixed' | 'exponential' | 'jittered'
+  /**
+   * The base delay in milliseconds.
+   * @default 0
+   */
+  delay?: number
+  /**
+   * The upper bound in milliseconds for the delay between attempts.
+   */
+  maxDelay?: number
+  /**
+   * Decides whether a Failure should be retried.
+   * By default, failures containing an `InputError` or a `ContextError` are not retried.
+   */
+  shouldRetry?: (
+    errors: Error[],
+    attempt: number,
+  ) => boolean | Promise<boolean>
+}
+
+/**
+ * The return type of the traverse function.
+ * It takes a list of the first parameter of the given Composable and keeps the other parameters unchanged.
+ */
+type TraverseReturn<Fn extends Composable> = Parameters<Fn> extends [
+  unknown?,
+  ...infer Rest,
+] ? Composable<
+    (items: Array<Parameters<Fn>[0]>, ...rest: Rest) => UnpackData<Fn>[],
+    UnpackErrors<Fn>
+  >
+  : never
+
+/**
+ * The return type of the gen function.
+ * The generator may throw any error, so the errors of the resulting Composable are not narrowed down.
+ */
+type GenReturn<Args extends unknown[], R> = Composable<
+  (...args: Args) => Awaited<R>
+>
+
 // Re-exporting internal types
 /**
  * A type that represents an error when composing functions with incompatible arguments.
@@ -256,19 +515,37 @@ export type {
   CanComposeInSequence,
   Composable,
   ComposableWithSchema,
+  DataType,
+  DataTypeRegistry,
+  DeserializableError,
+  EncodedData,
+  EncodedResult,
+  ErrorRegistry,
   FailToCompose,
   Failure,
+  FieldErrorMap,
+  GenReturn,
   IncompatibleArguments,
+  Jsonify,
+  JsonSerializableError,
+  JsonSerializableResult,
+  JsonSerializeOptions,
+  JsonValue,
   Last,
   MapParametersReturn,
   MergeObjects,
+  NestedFieldErrors,
+  ParallelOptions,
   PipeReturn,
   RecordToTuple,
   Result,
+  RetryPolicy,
   SequenceReturn,
   SerializableError,
   SerializableResult,
   Success,
+  TraverseReturn,
   UnpackAll,
   UnpackData,
+  UnpackErrors,
 }